@@ -0,0 +1,240 @@
+import { useMemo } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { SourcedResult } from "@/lib/arena/types";
+import { aggregateResults, mergedDataset, mergedVotesCSV, raterRatingsCSV } from "@/lib/arena/merge";
+import { downloadJSON, downloadText } from "@/lib/arena/results-io";
+import { agreementReport } from "@/lib/arena/agreement";
+import { DEFAULT_SIGNIFICANCE_LEVEL } from "@/lib/arena/significance";
+import { bothBadPolicyNote } from "@/lib/arena/analysis";
+import { pct, seconds } from "@/lib/arena/format";
+
+function fmt(x: number | null) {
+  return x === null ? "—" : x.toFixed(2);
+}
+
+export default function AggregateReport({ items }: { items: SourcedResult[] }) {
+  const report = useMemo(() => aggregateResults(items), [items]);
+  const agreement = useMemo(() => agreementReport(items), [items]);
+
+  function exportJSON() {
+    downloadJSON(`image-arena-merged-${Date.now()}.json`, { ...mergedDataset(items), agreement });
+  }
+
+  function exportCSV() {
+    downloadText(`image-arena-merged-${Date.now()}.csv`, mergedVotesCSV(items), "text/csv");
+  }
+
+  function exportRaterCSV() {
+    downloadText(`image-arena-raters-${Date.now()}.csv`, raterRatingsCSV(items), "text/csv");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {report.sessions} sessions from {report.raters.length} raters, {report.votes} votes across{" "}
+          {report.models.length} models.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={exportJSON}>
+            <Download className="h-4 w-4" aria-hidden="true" />
+            <span>JSON</span>
+          </Button>
+          <Button variant="outline" onClick={exportCSV}>
+            <Download className="h-4 w-4" aria-hidden="true" />
+            <span>CSV</span>
+          </Button>
+          <Button variant="outline" onClick={exportRaterCSV}>
+            <Download className="h-4 w-4" aria-hidden="true" />
+            <span>Rater CSV</span>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Overall</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">W / L / T / Bad</TableHead>
+                <TableHead className="text-right">Win rate (95% CI)</TableHead>
+                <TableHead className="text-right">Bradley-Terry (95% CI)</TableHead>
+                <TableHead className="text-right">Elo (95% CI)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.overall.map((r) => {
+                const bt = report.ratings.bradleyTerry.find((x) => x.model === r.model);
+                const elo = report.ratings.elo.find((x) => x.model === r.model);
+                return (
+                  <TableRow key={r.model}>
+                    <TableCell className="font-medium">{r.model}</TableCell>
+                    <TableCell className="text-right">
+                      {r.wins} / {r.losses} / {r.ties} / {r.bothBad}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {pct(r.winRate)} ({pct(r.lower)}–{pct(r.upper)})
+                    </TableCell>
+                    {[bt, elo].map((x, i) => (
+                      <TableCell key={i} className="text-right">
+                        {x ? `${Math.round(x.rating)} (${Math.round(x.lower)}–${Math.round(x.upper)})` : "—"}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <p className="mt-2 text-xs text-muted-foreground">{bothBadPolicyNote(report.bothBadAsTie)}</p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Per rater</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rater</TableHead>
+                <TableHead className="text-right">Sessions</TableHead>
+                <TableHead className="text-right">Votes</TableHead>
+                <TableHead className="text-right">Attention checks</TableHead>
+                <TableHead className="text-right">Self-consistency</TableHead>
+                <TableHead className="text-right">Left picks (side-bias p)</TableHead>
+                <TableHead className="text-right">Median time (p10–p90)</TableHead>
+                <TableHead className="text-right">Fast</TableHead>
+                <TableHead className="text-right">Before load</TableHead>
+                {report.models.map((m) => (
+                  <TableHead key={m} className="text-right">
+                    {m} wins (BT)
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.raters.map((r) => (
+                <TableRow key={r.rater}>
+                  <TableCell className="font-medium">
+                    {r.rater}
+                    {(r.profile?.expertise || r.profile?.device) && (
+                      <div className="text-xs font-normal text-muted-foreground">
+                        {[r.profile.expertise, r.profile.device].filter(Boolean).join(" · ")}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{r.sessions}</TableCell>
+                  <TableCell className="text-right">{r.votes}</TableCell>
+                  <TableCell className={`text-right ${r.attention?.pass === false ? "text-destructive" : ""}`}>
+                    {r.attention ? `${r.attention.passed} / ${r.attention.total}` : "—"}
+                  </TableCell>
+                  <TableCell className={`text-right ${r.consistency.followsPosition ? "text-destructive" : ""}`}>
+                    {r.consistency.repeats
+                      ? `${pct(r.consistency.consistencyRate)} of ${r.consistency.repeats}${r.consistency.followsPosition ? ", follows position" : ""}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right ${r.position.pValue < DEFAULT_SIGNIFICANCE_LEVEL ? "text-destructive" : ""}`}
+                  >
+                    {r.position.left + r.position.right
+                      ? `${pct(r.position.leftRate)} (${r.position.pValue.toFixed(3)})`
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {r.speed.count
+                      ? `${seconds(r.speed.medianMs)} (${seconds(r.speed.p10Ms)}–${seconds(r.speed.p90Ms)})`
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">{r.speed.count ? pct(r.speed.fastShare) : "—"}</TableCell>
+                  <TableCell className="text-right">{r.speed.count ? pct(r.speed.beforeLoadShare) : "—"}</TableCell>
+                  {report.models.map((m) => {
+                    const row = r.winRates.find((x) => x.model === m);
+                    const bt = r.ratings.bradleyTerry.find((x) => x.model === m);
+                    return (
+                      <TableCell key={m} className="text-right">
+                        {row ? `${row.wins} (${pct(row.winRate)})` : "—"}
+                        {bt && <div className="text-xs text-muted-foreground">{Math.round(bt.rating)}</div>}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Inter-rater agreement</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            Krippendorff&apos;s alpha (nominal) over {agreement.sharedItems} matchups judged by two or more raters:{" "}
+            <span className="font-medium text-foreground">{fmt(agreement.krippendorffAlpha)}</span>
+          </p>
+          {agreement.cohen.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rater pair</TableHead>
+                  <TableHead className="text-right">Shared matchups</TableHead>
+                  <TableHead className="text-right">Observed agreement</TableHead>
+                  <TableHead className="text-right">Cohen&apos;s kappa</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {agreement.cohen.map((c) => (
+                  <TableRow key={`${c.raterA}|${c.raterB}`}>
+                    <TableCell className="font-medium">
+                      {c.raterA} / {c.raterB}
+                    </TableCell>
+                    <TableCell className="text-right">{c.items}</TableCell>
+                    <TableCell className="text-right">{c.items ? pct(c.observed) : "—"}</TableCell>
+                    <TableCell className="text-right">{fmt(c.kappa)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {agreement.items.length > 0 && (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Prompt id</TableHead>
+                    <TableHead>Matchup</TableHead>
+                    <TableHead className="text-right">Raters</TableHead>
+                    <TableHead>Majority</TableHead>
+                    <TableHead className="text-right">Pairwise agreement</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {agreement.items.map((item) => (
+                    <TableRow key={item.key}>
+                      <TableCell className="font-medium">{item.id}</TableCell>
+                      <TableCell>{item.key.split("|").slice(1).join(" vs ")}</TableCell>
+                      <TableCell className="text-right">{item.raters}</TableCell>
+                      <TableCell>
+                        {item.majority} ({pct(item.majorityShare)})
+                      </TableCell>
+                      <TableCell className="text-right">{pct(item.pairwiseAgreement)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,27 +1,125 @@
-import { useMemo, useRef, useState } from "react";
+import { Fragment, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "sonner";
 import { Helmet } from "react-helmet-async";
-import { useEffect, useCallback } from "react";
-import { Dialog, DialogContent } from "@/components/ui/dialog";
-import { CheckCircle2, ArrowLeft, ArrowRight } from "lucide-react";
-
-export type ArenaResult = {
-  timestamp: string;
-  models: [string, string];
-  roundsPlanned: number;
-  roundsCompleted: number;
-  winsByModel: Record<string, number>;
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { useEffect, useCallback, useLayoutEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Toggle } from "@/components/ui/toggle";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CheckCircle2, ArrowLeft, ArrowRight, ArrowUp, ArrowDown, Undo2, History, Dices } from "lucide-react";
+import type { ArenaResult, ArenaVote, VoteChoice } from "@/lib/arena/types";
+import { computeRatings, formatRatingGap, ratingGap } from "@/lib/arena/rating";
+import {
+  SAMPLING_STRATEGIES,
+  loadVoteCounts,
+  matchupPairs,
+  pairKey,
+  recordVoteCounts,
+  samplePairs,
+  type SamplingStrategy,
+} from "@/lib/arena/sampling";
+import {
+  clearSession,
+  datasetFingerprint,
+  loadSession,
+  relinkPairs,
+  saveSession,
+  toStoredImage,
+  type StoredSession,
+} from "@/lib/arena/session-store";
+import { downloadJSON, saveLastResult } from "@/lib/arena/results-io";
+import { DEFAULT_SIGNIFICANCE_LEVEL, describeVerdict, sessionVerdict } from "@/lib/arena/significance";
+import {
+  DEFAULT_CRITERIA,
+  computeRatingsByCriterion,
+  parseCriteria,
+  type CriteriaLayout,
+  type Criterion,
+} from "@/lib/arena/criteria";
+import { DEFAULT_FAILURE_TAGS, MAX_TAG_SHORTCUTS, parseTags, toggleTag, type FailureTag } from "@/lib/arena/tags";
+import { DEFAULT_REASONS, parseReasons, type ReasonChip } from "@/lib/arena/reasons";
+import {
+  DEFAULT_FAST_VOTE_MS,
+  markImageLoaded,
+  markLoadedIfComplete,
+  markZoomOpened,
+  startPairTiming,
+  voteTiming,
+  type PairTiming,
+} from "@/lib/arena/timing";
+import { counterbalance } from "@/lib/arena/counterbalance";
+import {
+  CONTROL_KINDS,
+  DEFAULT_CONTROL_COUNT,
+  DEFAULT_MIN_PASS_RATE,
+  DEGRADED_FILTER,
+  attentionSummary,
+  buildControls,
+  injectControls,
+  parseGoldCSV,
+  type ControlCheck,
+  type ControlKind,
+  type GoldPair,
+} from "@/lib/arena/controls";
+import { DEFAULT_REPEAT_FRACTION, addRepeats } from "@/lib/arena/consistency";
+import { BOTH_BAD_AS_TIE, scoredVotes } from "@/lib/arena/analysis";
+import {
+  DISPLAY_DEVICES,
+  EXPERTISE_LEVELS,
+  captureEnvironment,
+  cleanProfile,
+  loadRaterProfile,
+  raterFromSearch,
+  saveRaterProfile,
+  type RaterProfile,
+  type SessionEnvironment,
+} from "@/lib/arena/rater";
+import { canonicalOrder, createRandom, newSeed, seedFromSearch, shuffleWith } from "@/lib/arena/random";
+import {
+  AUTO_NAMING,
+  NAMING_PRESETS,
+  compileNaming,
+  normalizeId,
+  parseImagePath,
+  type ParsedName,
+} from "@/lib/arena/naming";
+import NamingPreview from "@/components/arena/NamingPreview";
+import {
+  INSTRUCTION_FILES,
+  mergePromptTables,
+  parseInstructions,
+  promptMetadataEntries,
+  type PromptRecord,
+  type PromptTable,
+} from "@/lib/arena/instructions";
+import { validateDataset } from "@/lib/arena/validation";
+import ValidationPanel from "@/components/arena/ValidationPanel";
+import {
+  DATASET_INDEX_FILE,
+  DEFAULT_DATASET_ID,
+  datasetFile,
+  datasetImagesDir,
+  parseDatasetIndex,
+  type DatasetInfo,
+} from "@/lib/arena/datasets";
+import { entryFromFileName, metadataOf, parseManifest, type ImageMetadata, type ManifestImage } from "@/lib/arena/manifest";
+
+export type { ArenaResult };
+
+type ModelStanding = {
+  model: string;
+  wins: number;
   ties: number;
-  bothBad: number;
-  votes: Array<{
-    round: number;
-    left: { name: string; model: string; id: string };
-    right: { name: string; model: string; id: string };
-    choice: "left" | "right";
-    winnerModel?: string | null;
-  }>;
+  appearances: number;
+  // Ties count as half a win; both-bad votes count as an appearance only
+  winRate: number;
 };
 
 type LoadedImage = {
@@ -31,69 +129,137 @@ type LoadedImage = {
   name: string;
   id: string; // identifier after model prefix (e.g., 001)
   source: "upload" | "public";
+  meta?: ImageMetadata;
 };
 
-function normalizeId(id: string): string {
-  if (!id) return "";
-  const trimmed = String(id).trim();
-  const cleaned = trimmed.replace(/^[\-_.\s]+/, "");
-  if (/^\d+$/.test(cleaned)) {
-    const noLeading = cleaned.replace(/^0+/, "");
-    return noLeading === "" ? "0" : noLeading;
+// Resolves to the reason an image cannot be shown, or null when it decodes
+async function probeImage(url: string): Promise<string | null> {
+  const img = new Image();
+  img.src = url;
+  try {
+    await img.decode();
+    return img.naturalWidth > 0 ? null : "Decoded to an empty image";
+  } catch {
+    return "Could not be loaded or decoded";
   }
-  return cleaned;
 }
 
-function parseModelPrefix(filename: string): string {
-  const base = filename.replace(/\.[^/.]+$/, "");
-  const idxUnd = base.indexOf("_");
-  const idxDash = base.indexOf("-");
-  const indices = [idxUnd, idxDash].filter((i) => i >= 0).sort((a, b) => a - b);
-  if (indices.length > 0) {
-    return base.slice(0, indices[0]) || "model";
-  }
-  // No separators found; fall back to the whole base name
-  return base || "model";
+// The degraded side of a "corrupted" control pair is rendered through a filter
+function degradedStyle(pair: { control?: ControlCheck } | undefined, idx: number) {
+  const side = idx === 0 ? "left" : "right";
+  return pair?.control?.degraded === side ? { filter: DEGRADED_FILTER } : undefined;
 }
 
-function parseIdSuffix(filename: string, modelPrefix?: string): string {
-  const base = filename.replace(/\.[^/.]+$/, "");
-  let rest = base;
-  if (modelPrefix && base.toLowerCase().startsWith(modelPrefix.toLowerCase())) {
-    rest = base.slice(modelPrefix.length);
-  } else {
-    const idxUnd = base.indexOf("_");
-    const idxDash = base.indexOf("-");
-    const indices = [idxUnd, idxDash].filter((i) => i >= 0).sort((a, b) => a - b);
-    const idx = indices.length ? indices[0] : -1;
-    rest = idx >= 0 ? base.slice(idx + 1) : base;
-  }
-  rest = rest.replace(/^[\-_.\s]+/, "");
-  return normalizeId(rest || base);
+function winnerFor(pair: { left: { model: string }; right: { model: string } }, choice: VoteChoice) {
+  return choice === "left" ? pair.left.model : choice === "right" ? pair.right.model : null;
 }
 
-function downloadJSON(filename: string, data: any) {
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
+function revisionOf(vote: ArenaVote, via: "undo" | "review") {
+  return { choice: vote.choice, winnerModel: vote.winnerModel, changedAt: new Date().toISOString(), via };
 }
 
-export default function ImageArena({ defaultRounds = 20 }: { defaultRounds?: number }) {
+function rankModels(
+  winsByModel: Record<string, number>,
+  tiesByModel: Record<string, number>,
+  bothBadByModel: Record<string, number>,
+  appearancesByModel: Record<string, number>
+): ModelStanding[] {
+  return Object.keys(winsByModel)
+    .map((model) => {
+      const wins = winsByModel[model] ?? 0;
+      const ties = tiesByModel[model] ?? 0;
+      const bothBad = bothBadByModel[model] ?? 0;
+      const appearances = appearancesByModel[model] ?? 0;
+      // Same both-bad policy as winRates and the ratings
+      const score = wins + (ties + (BOTH_BAD_AS_TIE ? bothBad : 0)) / 2;
+      const games = BOTH_BAD_AS_TIE ? appearances : appearances - bothBad;
+      const winRate = games ? score / games : 0;
+      return { model, wins, ties, appearances, winRate };
+    })
+    .sort((a, b) => b.winRate - a.winRate || b.wins - a.wins);
+}
+
+export default function ImageArena({
+  defaultRounds = 20,
+  defaultSignificanceLevel = DEFAULT_SIGNIFICANCE_LEVEL,
+  datasetId = DEFAULT_DATASET_ID,
+}: {
+  defaultRounds?: number;
+  defaultSignificanceLevel?: number;
+  // Which public dataset to load; set from the /arena/:datasetId route
+  datasetId?: string;
+}) {
   const [rounds, setRounds] = useState<number>(defaultRounds);
-  const [images, setImages] = useState<LoadedImage[]>([]);
+  const [significanceLevel, setSignificanceLevel] = useState<number>(defaultSignificanceLevel);
+  const [loadedImages, setImages] = useState<LoadedImage[]>([]);
   const [phase, setPhase] = useState<"config" | "playing" | "results">("config");
   const [current, setCurrent] = useState(0);
-  const [pairs, setPairs] = useState<Array<{ left: LoadedImage; right: LoadedImage }>>([]);
-  const [instructionsById, setInstructionsById] = useState<Record<string, string>>({});
+  const [pairs, setPairs] = useState<
+    Array<{ left: LoadedImage; right: LoadedImage; control?: ControlCheck; repeat?: { ofRound: number } }>
+  >([]);
+  const [sampling, setSampling] = useState<SamplingStrategy>("random");
+  const [prompts, setPrompts] = useState<PromptTable>({});
   const votesRef = useRef<ArenaResult["votes"]>([]);
   const [zoomSrc, setZoomSrc] = useState<string | null>(null);
+  const [zoomFilter, setZoomFilter] = useState<string | undefined>(undefined);
   const [justVoted, setJustVoted] = useState<"left" | "right" | null>(null);
+  const [savedSession, setSavedSession] = useState<StoredSession | null>(null);
+  const sessionStartedAtRef = useRef<string>("");
+  const saveFailedRef = useRef(false);
+  const advanceTimerRef = useRef<number | null>(null);
+  // Votes removed by undo, keyed by round, so a re-vote keeps their history
+  const undoneRef = useRef<Record<number, ArenaVote>>({});
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [, setReviewVersion] = useState(0);
+  const [criteriaEnabled, setCriteriaEnabled] = useState(false);
+  const [criteriaText, setCriteriaText] = useState(DEFAULT_CRITERIA.map((c) => c.label).join(", "));
+  const [criteriaLayout, setCriteriaLayout] = useState<CriteriaLayout>("sequence");
+  // Criteria of the running session; empty for a single overall choice
+  const [sessionCriteria, setSessionCriteria] = useState<Criterion[]>([]);
+  const [pendingCriteria, setPendingCriteria] = useState<Record<string, VoteChoice>>({});
+  const [criterionIndex, setCriterionIndex] = useState(0);
+  const [tagsText, setTagsText] = useState(DEFAULT_FAILURE_TAGS.map((t) => t.label).join(", "));
+  const [sessionTags, setSessionTags] = useState<FailureTag[]>([]);
+  const [pendingTags, setPendingTags] = useState<{ left: string[]; right: string[] }>({ left: [], right: [] });
+  const [reasonsText, setReasonsText] = useState(DEFAULT_REASONS.map((r) => r.label).join(", "));
+  const [sessionReasons, setSessionReasons] = useState<ReasonChip[]>([]);
+  const [pendingReasons, setPendingReasons] = useState<string[]>([]);
+  const [pendingComment, setPendingComment] = useState("");
+  const commentRef = useRef<HTMLTextAreaElement>(null);
+  const [fastVoteMs, setFastVoteMs] = useState(DEFAULT_FAST_VOTE_MS);
+  const pairTimingRef = useRef<PairTiming | null>(null);
+  const [pairVisit, setPairVisit] = useState(0);
+  // The two candidate <img> elements, reused from pair to pair
+  const imageRefs = useRef<Array<HTMLImageElement | null>>([]);
+  const [attentionEnabled, setAttentionEnabled] = useState(false);
+  const [controlCount, setControlCount] = useState(DEFAULT_CONTROL_COUNT);
+  const [controlKinds, setControlKinds] = useState<ControlKind[]>(CONTROL_KINDS.map((k) => k.value));
+  const [minPassRate, setMinPassRate] = useState(DEFAULT_MIN_PASS_RATE);
+  const [goldPairs, setGoldPairs] = useState<GoldPair[]>([]);
+  const [repeatsEnabled, setRepeatsEnabled] = useState(false);
+  const [repeatFraction, setRepeatFraction] = useState(DEFAULT_REPEAT_FRACTION);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [datasets, setDatasets] = useState<DatasetInfo[]>([]);
+  // Loaders compare against this after each fetch, so responses for a
+  // dataset the user already switched away from are dropped
+  const currentDatasetRef = useRef(datasetId);
+  // URL parameters override whatever this browser remembered
+  const [rater, setRater] = useState<RaterProfile>(() => ({ ...loadRaterProfile(), ...raterFromSearch(location.search) }));
+  const environmentRef = useRef<SessionEnvironment | null>(null);
+  // A seed from the URL stays fixed across sessions, e.g. for assigned batches
+  const urlSeed = useMemo(() => seedFromSearch(location.search), [location.search]);
+  const [seed, setSeed] = useState(() => urlSeed ?? newSeed());
+  const [revealAfterVote, setRevealAfterVote] = useState(false);
+  // The voted pair stays on screen with models and metadata until dismissed
+  const [revealing, setRevealing] = useState(false);
+  // Filled by the on-demand file check and by uploads that were not images
+  const [unreadable, setUnreadable] = useState<Array<{ file: string; reason: string }>>([]);
+  const [checkingFiles, setCheckingFiles] = useState(false);
+  const [filesCheckedAt, setFilesCheckedAt] = useState<string | null>(null);
+  const [skippedUploads, setSkippedUploads] = useState<string[]>([]);
+  // Unsupported files the manifest plugin found in the dataset folder
+  const [skippedPublic, setSkippedPublic] = useState<string[]>([]);
 
   const withBase = (path: string) => {
     const envBase = (import.meta as any)?.env?.BASE_URL ?? "/";
@@ -125,18 +291,32 @@ export default function ImageArena({ defaultRounds = 20 }: { defaultRounds?: num
     return merged;
   }
 
-  function shuffleArray<T>(items: T[]): T[] {
-    const a = items.slice();
-    for (let i = a.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [a[i], a[j]] = [a[j], a[i]];
+  // Naming rule for model and id; "custom" takes a template or regex from the text field
+  const [namingPreset, setNamingPreset] = useState(AUTO_NAMING);
+  const [customNaming, setCustomNaming] = useState("");
+  const naming = namingPreset === "custom" ? customNaming : namingPreset;
+
+  const namingResult = useMemo(() => {
+    const keep = (img: LoadedImage): ParsedName => ({ model: img.model, id: img.id });
+    try {
+      const parse = compileNaming(naming);
+      // Automatic naming keeps what the loader (or a manifest sidecar) assigned
+      const rows = loadedImages.map((img) => ({ img, parsed: naming === AUTO_NAMING ? keep(img) : parse(img.name) }));
+      return { rows, error: null as string | null };
+    } catch (err) {
+      const rows = loadedImages.map((img) => ({ img, parsed: keep(img) as ParsedName | null }));
+      return { rows, error: err instanceof Error ? err.message : "Invalid naming rule" };
     }
-    return a;
-  }
+  }, [loadedImages, naming]);
+
+  const images = useMemo(
+    () => namingResult.rows.flatMap(({ img, parsed }) => (parsed ? [{ ...img, ...parsed }] : [])),
+    [namingResult]
+  );
 
   const models = useMemo(() => {
     const set = new Set(images.map((i) => i.model));
-    return Array.from(set).slice(0, 2) as [string, string];
+    return Array.from(set).sort();
   }, [images]);
 
   const grouped = useMemo(() => {
@@ -148,40 +328,150 @@ export default function ImageArena({ defaultRounds = 20 }: { defaultRounds?: num
     return map;
   }, [images]);
 
+  const fingerprint = useMemo(() => datasetFingerprint(images), [images]);
+  // Only offered when the saved pairs can be pointed at the images loaded now
+  const resumablePairs = useMemo(
+    () => (savedSession && savedSession.fingerprint === fingerprint ? relinkPairs(savedSession.pairs, images) : null),
+    [savedSession, fingerprint, images]
+  );
+
+  const validation = useMemo(
+    () =>
+      validateDataset(images, {
+        instructionIds: Object.keys(prompts),
+        unreadable: unreadable.filter((u) => images.some((i) => i.name === u.file)),
+        skipped: [...skippedPublic, ...skippedUploads, ...namingResult.rows.filter((r) => !r.parsed).map((r) => r.img.name)],
+      }),
+    [images, prompts, unreadable, skippedPublic, skippedUploads, namingResult]
+  );
+
+  // Number of matchups available across every model combination
+  const availablePairs = useMemo(() => {
+    const ids = Object.values(grouped).map((list) => new Set(list.map((i) => i.id)));
+    let total = 0;
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        for (const id of ids[i]) if (ids[j].has(id)) total++;
+      }
+    }
+    return total;
+  }, [grouped]);
+
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (phase !== "playing") return;
-    if (e.key === "ArrowLeft") {
+    if (phase !== "playing" || reviewOpen) return;
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return;
+    if (e.key === "Backspace" || ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z")) {
+      e.preventDefault();
+      undo();
+    } else if (revealing) {
+      if (e.key === "Enter" || e.key === " " || e.key === "ArrowRight") {
+        e.preventDefault();
+        continueAfterReveal();
+      }
+    } else if (/^Digit[1-9]$/.test(e.code) && e.altKey) {
+      // Alt+1-9 toggle reason chips
+      const reason = sessionReasons[Number(e.code.slice(5)) - 1];
+      if (!reason) return;
+      e.preventDefault();
+      setPendingReasons((prev) => toggleTag(prev, reason.id));
+    } else if (e.key.toLowerCase() === "c" && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      e.preventDefault();
+      commentRef.current?.focus();
+    } else if (/^Digit[1-9]$/.test(e.code) && !e.ctrlKey && !e.metaKey) {
+      // 1-9 tag the left image, Shift+1-9 the right one
+      const tag = sessionTags[Number(e.code.slice(5)) - 1];
+      if (!tag) return;
+      e.preventDefault();
+      toggleImageTag(e.shiftKey ? "right" : "left", tag.id);
+    } else if (e.key === "ArrowLeft") {
       e.preventDefault();
       vote("left");
     } else if (e.key === "ArrowRight") {
       e.preventDefault();
       vote("right");
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      vote("tie");
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      vote("bothBad");
     }
-  }, [phase, current, pairs]);
+  }, [
+    phase,
+    current,
+    pairs,
+    reviewOpen,
+    sessionCriteria,
+    pendingCriteria,
+    criterionIndex,
+    sessionTags,
+    pendingTags,
+    sessionReasons,
+    pendingReasons,
+    pendingComment,
+    revealing,
+  ]);
 
   useEffect(() => {
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [handleKeyDown]);
 
+  // Restart the clock whenever a pair is (re)shown; undo bumps pairVisit
+  // because it can return to the index already on screen. A layout effect
+  // runs before the browser can deliver load events for the new images.
+  useLayoutEffect(() => {
+    const pair = pairs[current];
+    const timing =
+      phase === "playing" && pair ? startPairTiming({ left: pair.left.url, right: pair.right.url }) : null;
+    if (timing) {
+      markLoadedIfComplete(timing, "left", imageRefs.current[0]);
+      markLoadedIfComplete(timing, "right", imageRefs.current[1]);
+    }
+    pairTimingRef.current = timing;
+  }, [phase, current, pairs, pairVisit]);
+
   // Auto-load assets from public on first render
   useEffect(() => {
     // Intentionally ignore errors here; toasts inside functions will surface issues
+    loadDatasetIndex().catch(() => {});
+    loadArenaConfig().catch(() => {});
+    loadSession().then(setSavedSession).catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Switching datasets replaces the public images, instructions and gold
+  // pairs; uploaded files stay
+  useEffect(() => {
+    currentDatasetRef.current = datasetId;
+    setImages((prev) => prev.filter((i) => i.source === "upload"));
+    setPrompts({});
+    setGoldPairs([]);
+    setUnreadable([]);
+    setFilesCheckedAt(null);
+    setSkippedPublic([]);
     loadFromPublicFolder().catch(() => {});
     loadInstructionsFromPublic().catch(() => {});
+    loadGoldFromPublic().catch(() => {});
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [datasetId]);
 
 function onFileChange(files: FileList | null) {
   if (!files || files.length === 0) return;
   const imgs: LoadedImage[] = [];
+  const skipped: string[] = [];
   for (const f of Array.from(files)) {
-    if (!f.type.startsWith("image/")) continue;
+    if (!f.type.startsWith("image/")) {
+      skipped.push(f.webkitRelativePath || f.name);
+      continue;
+    }
     const url = URL.createObjectURL(f);
-    const model = parseModelPrefix(f.name);
-    const id = parseIdSuffix(f.name, model);
-    imgs.push({ file: f, url, model, name: f.name, id, source: "upload" });
+    // Folder uploads carry the relative path, so the model can come from the folder
+    const name = f.webkitRelativePath || f.name;
+    imgs.push({ file: f, url, ...parseImagePath(name), name, source: "upload" });
   }
+  if (skipped.length > 0) setSkippedUploads((prev) => [...prev, ...skipped]);
   if (imgs.length === 0) {
     toast.error("Please select image files.");
     return;
@@ -197,13 +487,13 @@ async function onCsvChange(files: FileList | null) {
   const file = files[0];
   try {
     const text = await file.text();
-    const parsed = parseInstructionsCSV(text);
-    const count = Object.keys(parsed).length;
+    const parsed = parseInstructions(text);
+    const count = new Set(Object.values(parsed)).size;
     if (count === 0) {
-      toast.error("No instructions found in the CSV (expect header 'id;instruction' or 'id,instruction').");
+      toast.error("No instructions found in the file (expect header 'id;instruction', 'id,instruction' or tab-separated).");
       return;
     }
-    setInstructionsById(parsed);
+    setPrompts(parsed);
     toast.success(`Loaded ${count} instructions.`);
   } catch (err) {
     toast.error("Failed to read CSV file.");
@@ -212,55 +502,69 @@ async function onCsvChange(files: FileList | null) {
 
 async function loadInstructionsFromPublic() {
   try {
-    const names = ["instruction.csv", "instructions.csv"]; // prefer singular, then plural
-    const loaded: Record<string, string> = {};
-    const used: string[] = [];
-    for (const name of names) {
-      const res = await fetch(withBase(name), { cache: "no-store" });
-      if (res.ok) {
-        const text = await res.text();
-        const parsed = parseInstructionsCSV(text);
-        if (Object.keys(parsed).length > 0) {
-          Object.assign(loaded, parsed);
-          used.push(name);
-        }
-      }
+    const tables: PromptTable[] = [];
+    for (const name of INSTRUCTION_FILES) {
+      const res = await fetchPublicFile(datasetFile(datasetId, name));
+      if (res) tables.push(parseInstructions(await res.text()));
     }
-    const count = Object.keys(loaded).length;
+    const loaded = mergePromptTables(tables);
+    if (currentDatasetRef.current !== datasetId) return;
+    const count = new Set(Object.values(loaded)).size;
     if (count === 0) {
-      toast.error("No CSV found or empty (/instruction.csv or /instructions.csv)");
+      const dir = datasetFile(datasetId, "");
+      toast.error(`No instructions found or empty (/${dir}instruction.csv, instructions.csv or instructions.tsv)`);
       return;
     }
-    setInstructionsById(loaded);
+    setPrompts(loaded);
     toast.success(`Loaded ${count} instructions.`);
   } catch (err) {
     toast.error("Failed to load CSV from public folder");
   }
 }
 
-function parseInstructionsCSV(text: string): Record<string, string> {
-  const map: Record<string, string> = {};
-  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
-  if (lines.length === 0) return map;
-  const first = lines[0];
-  const semi = (first.match(/;/g) || []).length;
-  const comma = (first.match(/,/g) || []).length;
-  const delim = semi >= comma ? ";" : ",";
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const idx = line.indexOf(delim);
-    if (idx < 0) continue;
-    let id = line.slice(0, idx).trim();
-    let instruction = line.slice(idx + 1).trim();
-    id = id.replace(/^\"|\"$/g, "");
-    instruction = instruction.replace(/^\"|\"$/g, "");
-    if (i === 0 && id.toLowerCase() === "id") continue; // skip header
-    if (!id) continue;
-    const norm = normalizeId(String(id));
-    map[String(id)] = instruction;
-    map[norm] = instruction;
+// Resolves to null for missing files; dev servers and SPA hosts answer
+// those with the app's index.html instead of a 404
+async function fetchPublicFile(path: string): Promise<Response | null> {
+  const res = await fetch(withBase(path), { cache: "no-store" });
+  return res.ok && !(res.headers.get("content-type") || "").includes("text/html") ? res : null;
+}
+
+// Lists the public/datasets folders; the implicit dataset is always offered
+async function loadDatasetIndex() {
+  const res = await fetchPublicFile(DATASET_INDEX_FILE);
+  if (!res) return;
+  setDatasets(parseDatasetIndex(await res.json()));
+}
+
+function selectDataset(id: string) {
+  navigate({ pathname: id === DEFAULT_DATASET_ID ? "/" : `/arena/${encodeURIComponent(id)}`, search: location.search });
+}
+
+// Optional public/arena.config.json, e.g. { "naming": "{model}_{id}" }
+async function loadArenaConfig() {
+  const res = await fetchPublicFile("arena.config.json");
+  if (!res) return;
+  const config = await res.json();
+  if (typeof config?.naming === "string") applyNamingRule(config.naming);
+}
+
+function applyNamingRule(rule: string) {
+  if (NAMING_PRESETS.some((p) => p.value === rule)) {
+    setNamingPreset(rule);
+  } else {
+    setNamingPreset("custom");
+    setCustomNaming(rule);
   }
-  return map;
+}
+
+// Optional; without it the gold-pair control kind is simply unavailable
+async function loadGoldFromPublic() {
+  const res = await fetchPublicFile(datasetFile(datasetId, "gold.csv"));
+  if (!res) return;
+  const gold = parseGoldCSV(await res.text());
+  if (currentDatasetRef.current !== datasetId) return;
+  setGoldPairs(gold);
+  if (gold.length > 0) toast.success(`Loaded ${gold.length} gold pairs.`);
 }
 
 async function loadFromPublicFolder() {
@@ -268,15 +572,16 @@ async function loadFromPublicFolder() {
     // Prefer manifest which is auto-generated by Vite plugin
     let loadedFrom = "manifest" as "listing" | "manifest";
     const supported = [".png", ".jpg", ".jpeg", ".webp", ".gif", ".bmp"];
-    let fileNames: string[] = [];
-    const m = await fetch(withBase(`images/manifest.json`), { cache: "no-store" });
-    if (m.ok) {
-      const j = await m.json();
-      fileNames = Array.isArray(j) ? j : Array.isArray(j?.files) ? j.files : [];
+    let entries: ManifestImage[] = [];
+    let skipped: string[] = [];
+    const imagesDir = datasetImagesDir(datasetId);
+    const m = await fetchPublicFile(`${imagesDir}manifest.json`);
+    if (m) {
+      ({ images: entries, skipped } = parseManifest(await m.json()));
     }
-    if (!fileNames.length) {
+    if (!entries.length) {
       // Try directory listing as a fallback
-      const res = await fetch(withBase(`images/`), { cache: "no-store" });
+      const res = await fetch(withBase(imagesDir), { cache: "no-store" });
       if (res.ok) {
         const contentType = res.headers.get("Content-Type") || "";
         const text = await res.text();
@@ -286,30 +591,32 @@ async function loadFromPublicFolder() {
           const parser = new DOMParser();
           const doc = parser.parseFromString(text, "text/html");
           const links = Array.from(doc.querySelectorAll("a"));
-          fileNames = links
+          entries = links
             .map((a) => a.getAttribute("href") || "")
             .map((href) => href.split("?")[0])
             .filter((href) => !!href && !href.startsWith(".."))
             .map((href) => (href.endsWith("/") ? href.slice(0, -1) : href))
             .map((href) => href.split("/").pop() || href)
-            .filter((name) => supported.some((ext) => name.toLowerCase().endsWith(ext)));
+            .filter((name) => supported.some((ext) => name.toLowerCase().endsWith(ext)))
+            .map(entryFromFileName);
         }
       }
     }
 
-    const unique = Array.from(new Set(fileNames));
+    if (currentDatasetRef.current !== datasetId) return;
+    setSkippedPublic(skipped);
+    const unique = Array.from(new Map(entries.map((e) => [e.file, e])).values());
     if (unique.length === 0) {
-      toast.error("No images found under /images. Ensure files are committed and reloaded.");
+      toast.error(`No images found under /${imagesDir}. Ensure files are committed and reloaded.`);
       return;
     }
 
-    const shuffledNames = shuffleArray(unique);
-    const publicImgs: LoadedImage[] = shuffledNames.map((name) => {
-      const baseName = name.split('/').pop() || name;
-      const model = parseModelPrefix(baseName);
-      const id = parseIdSuffix(baseName, model);
-      const url = withBase(`images/${name}`);
-      return { url, model, name, id, source: "public" };
+    // Load order does not affect the session; the seed decides pair order
+    const sorted = unique.sort((a, b) => a.file.localeCompare(b.file, undefined, { numeric: true }));
+    const publicImgs: LoadedImage[] = sorted.map((entry) => {
+      const url = withBase(`${imagesDir}${entry.file}`);
+      const meta = metadataOf(entry);
+      return { url, model: entry.model, name: entry.file, id: entry.id, source: "public", ...(meta ? { meta } : {}) };
     });
 
     setImages((prev) => mergeUniqueByUrl(prev, publicImgs));
@@ -322,50 +629,237 @@ async function loadFromPublicFolder() {
   }
 }
 
+// Loads every image once, one at a time, so large datasets do not flood the network
+async function checkImageFiles() {
+  setCheckingFiles(true);
+  const failed: Array<{ file: string; reason: string }> = [];
+  for (const img of images) {
+    const reason = await probeImage(img.url);
+    if (reason) failed.push({ file: img.name, reason });
+  }
+  setUnreadable(failed);
+  setFilesCheckedAt(new Date().toISOString());
+  setCheckingFiles(false);
+  if (failed.length === 0) toast.success(`All ${images.length} images load.`);
+  else toast.error(`${failed.length} images could not be loaded.`);
+}
+
+function downloadValidationReport() {
+  downloadJSON(`image-arena-validation-${Date.now()}.json`, {
+    generatedAt: new Date().toISOString(),
+    datasetId,
+    fingerprint,
+    ...(naming !== AUTO_NAMING ? { naming } : {}),
+    // Unreadable images are only known after "Check image files"
+    filesCheckedAt,
+    ...validation,
+  });
+}
+
 function startArena() {
-  const [m1, m2] = models;
-  if (!m1 || !m2) {
-    toast.error("Please provide images from exactly two models (use filename prefixes).");
+  if (namingResult.error) {
+    toast.error(`File naming: ${namingResult.error}`);
     return;
   }
-
-  // Build maps by id for each model
-  const map1: Record<string, LoadedImage> = {};
-  const map2: Record<string, LoadedImage> = {};
-  for (const img of images) {
-    if (img.model === m1) map1[img.id] = img;
-    else if (img.model === m2) map2[img.id] = img;
+  if (!rater.id.trim()) {
+    toast.error("Enter a rater ID before starting.");
+    return;
+  }
+  if (models.length < 2) {
+    toast.error("Please provide images from at least two models (use filename prefixes).");
+    return;
   }
 
-  const commonIds = Object.keys(map1).filter((id) => map2[id]);
-  if (commonIds.length === 0) {
+  // Everything below draws from one seeded stream over a canonical image order
+  const random = createRandom(seed);
+  const shuffle = <T,>(items: T[]) => shuffleWith(items, random);
+  const ordered = canonicalOrder(images);
+  const newPairs = matchupPairs(ordered);
+
+  if (newPairs.length === 0) {
     toast.error("No matching pairs found (match by id after prefix, e.g., A_001 with B_001).");
     return;
   }
 
-  // Shuffle order but keep id-pairing. Use all pairs.
-  const order = shuffleArray(commonIds);
+  // Counterbalancing also shuffles, so ids and model combinations end up interleaved
+  const sampled = counterbalance(
+    samplePairs(newPairs, rounds, sampling, {
+      keyOf: (p) => pairKey(p.left.id, p.left.model, p.right.model),
+      categoryOf: (p) => prompts[p.left.id]?.category ?? "",
+      voteCounts: sampling === "leastVoted" ? loadVoteCounts() : {},
+      shuffle,
+    }),
+    shuffle
+  );
+
+  let sessionPairs: typeof pairs = sampled;
+  if (attentionEnabled && controlCount > 0) {
+    const findImage = (model: string, id: string) =>
+      ordered.find((img) => img.model === model && normalizeId(img.id) === normalizeId(id));
+    const gold = goldPairs.flatMap((g) => {
+      const winner = findImage(g.winner, g.id);
+      const loser = findImage(g.loser, g.id);
+      return winner && loser ? [{ left: winner, right: loser }] : [];
+    });
+    const controls = buildControls(controlCount, controlKinds, { images: ordered, gold, random });
+    if (controls.length < controlCount) toast.warning(`Only ${controls.length} control pairs could be built.`);
+    sessionPairs = injectControls(sampled, controls, random);
+  }
+  // Added last so each repeat can record the final round of its original
+  if (repeatsEnabled && repeatFraction > 0) sessionPairs = addRepeats(sessionPairs, repeatFraction, shuffle, random);
 
-  const newPairs: Array<{ left: LoadedImage; right: LoadedImage }> = [];
-  for (const id of order) {
-    const a = map1[id]!;
-    const b = map2[id]!;
-    if (Math.random() < 0.5) newPairs.push({ left: a, right: b });
-    else newPairs.push({ left: b, right: a });
+  const activeCriteria = criteriaEnabled ? parseCriteria(criteriaText) : [];
+  if (criteriaEnabled && activeCriteria.length === 0) {
+    toast.error("Enter at least one criterion, or turn off multi-criteria voting.");
+    return;
   }
 
+  const activeTags = parseTags(tagsText);
+  const activeReasons = parseReasons(reasonsText);
+
+  const profile = cleanProfile(rater);
+  saveRaterProfile(profile);
+  setRater(profile);
+  environmentRef.current = captureEnvironment(fingerprint);
+
   votesRef.current = [];
-  setPairs(newPairs);
+  sessionStartedAtRef.current = new Date().toISOString();
+  setSessionCriteria(activeCriteria);
+  setSessionTags(activeTags);
+  setSessionReasons(activeReasons);
+  resetPairProgress();
+  setPairs(sessionPairs);
   setCurrent(0);
   setPhase("playing");
+  persistSession(sessionPairs, 0, {
+    criteria: activeCriteria,
+    tags: activeTags,
+    reasons: activeReasons,
+    rater: profile,
+  });
+}
+
+function resumeSession() {
+  const saved = savedSession;
+  if (!saved || !resumablePairs) return;
+  votesRef.current = saved.votes.slice();
+  sessionStartedAtRef.current = saved.startedAt;
+  setSampling(saved.sampling);
+  setSessionCriteria(saved.criteria ?? []);
+  if (saved.criteriaLayout) setCriteriaLayout(saved.criteriaLayout);
+  setSessionTags(saved.tags ?? []);
+  setSessionReasons(saved.reasons ?? []);
+  if (saved.fastVoteThresholdMs) setFastVoteMs(saved.fastVoteThresholdMs);
+  if (saved.minPassRate !== undefined) setMinPassRate(saved.minPassRate);
+  setRepeatsEnabled(!!saved.repeatFraction);
+  if (saved.repeatFraction) setRepeatFraction(saved.repeatFraction);
+  if (saved.rater) setRater(saved.rater);
+  if (saved.seed) setSeed(saved.seed);
+  environmentRef.current = saved.environment ?? null;
+  resetPairProgress();
+  setPairs(resumablePairs);
+  setCurrent(Math.min(saved.current, resumablePairs.length - 1));
+  setPhase("playing");
 }
 
-  function vote(choice: "left" | "right") {
+function discardSession() {
+  setSavedSession(null);
+  clearSession().catch(() => {});
+}
+
+// Saved after every vote so a reload or crashed tab can pick up where the
+// rater left off
+function persistSession(
+  sessionPairs: typeof pairs,
+  nextIndex: number,
+  config: { criteria: Criterion[]; tags: FailureTag[]; reasons: ReasonChip[]; rater: RaterProfile } = {
+    criteria: sessionCriteria,
+    tags: sessionTags,
+    reasons: sessionReasons,
+    rater,
+  }
+) {
+  const session: StoredSession = {
+    version: 1,
+    fingerprint,
+    startedAt: sessionStartedAtRef.current,
+    savedAt: new Date().toISOString(),
+    pairs: sessionPairs.map((p) => ({
+      left: toStoredImage(p.left),
+      right: toStoredImage(p.right),
+      ...(p.control ? { control: p.control } : {}),
+      ...(p.repeat ? { repeat: p.repeat } : {}),
+    })),
+    current: nextIndex,
+    votes: votesRef.current,
+    sampling,
+    criteria: config.criteria,
+    criteriaLayout,
+    tags: config.tags,
+    reasons: config.reasons,
+    fastVoteThresholdMs: fastVoteMs,
+    minPassRate,
+    repeatFraction: repeatsEnabled ? repeatFraction : 0,
+    rater: config.rater,
+    seed,
+    ...(environmentRef.current ? { environment: environmentRef.current } : {}),
+  };
+  saveSession(session).catch(() => {
+    if (saveFailedRef.current) return;
+    saveFailedRef.current = true;
+    toast.error("Could not save session progress; votes will be lost on reload.");
+  });
+}
+
+  // Clears what has been entered for the current pair but not yet committed
+  function resetPairProgress() {
+    setPendingCriteria({});
+    setCriterionIndex(0);
+    setPendingTags({ left: [], right: [] });
+    setPendingReasons([]);
+    setPendingComment("");
+  }
+
+  function toggleImageTag(side: "left" | "right", id: string) {
+    setPendingTags((prev) => ({ ...prev, [side]: toggleTag(prev[side], id) }));
+  }
+
+  // Keyboard and button entry point. With criteria enabled each press answers
+  // the active criterion and the vote is committed once all are answered.
+  function vote(choice: VoteChoice) {
+    if (sessionCriteria.length === 0) {
+      commitVote(choice);
+      return;
+    }
+    const active = sessionCriteria[criterionIndex];
+    if (!active || advanceTimerRef.current !== null || revealing) return;
+    answerCriterion(active.id, choice);
+  }
+
+  function answerCriterion(id: string, choice: VoteChoice) {
+    const next = { ...pendingCriteria, [id]: choice };
+    const remaining = sessionCriteria.findIndex((c) => !next[c.id]);
+    if (remaining === -1) {
+      commitVote(next[sessionCriteria[0].id], next);
+      return;
+    }
+    setPendingCriteria(next);
+    setCriterionIndex(remaining);
+  }
+
+  function commitVote(choice: VoteChoice, criteriaChoices?: Record<string, VoteChoice>) {
     const pair = pairs[current];
-    if (!pair) return;
+    // Ignore presses while the previous vote is still advancing
+    if (!pair || advanceTimerRef.current !== null || revealing) return;
+    const tags = sessionTags.length ? pendingTags : undefined;
+    const reasons = pendingReasons.length ? pendingReasons : undefined;
+    const comment = pendingComment.trim() || undefined;
+    const timing = pairTimingRef.current ? voteTiming(pairTimingRef.current, fastVoteMs) : undefined;
+    resetPairProgress();
 
-    const winnerModel =
-      choice === "left" ? pair.left.model : choice === "right" ? pair.right.model : null;
+    const winnerModel = winnerFor(pair, choice);
+    const undone = undoneRef.current[current + 1];
+    delete undoneRef.current[current + 1];
 
     votesRef.current.push({
       round: current + 1,
@@ -373,13 +867,35 @@ function startArena() {
       right: { name: pair.right.name, model: pair.right.model, id: pair.right.id },
       choice,
       winnerModel,
+      ...(criteriaChoices
+        ? {
+            criteria: Object.fromEntries(
+              Object.entries(criteriaChoices).map(([id, c]) => [id, { choice: c, winnerModel: winnerFor(pair, c) }])
+            ),
+          }
+        : {}),
+      ...(tags ? { tags } : {}),
+      ...(reasons ? { reasons } : {}),
+      ...(comment ? { comment } : {}),
+      ...(timing ? { timing } : {}),
+      ...(pair.control ? { control: pair.control } : {}),
+      ...(pair.repeat ? { repeat: pair.repeat } : {}),
+      ...(undone ? { revisions: [...(undone.revisions ?? []), revisionOf(undone, "undo")] } : {}),
     });
 
     const next = current + 1;
+    // The last vote is not saved; finish() clears the stored session instead
+    if (next < pairs.length) persistSession(pairs, next);
+    if (revealAfterVote) {
+      if (choice === "left" || choice === "right") setJustVoted(choice);
+      setRevealing(true);
+      return;
+    }
     // For left/right, briefly show a green tick before advancing
     if (choice === "left" || choice === "right") {
       setJustVoted(choice);
-      window.setTimeout(() => {
+      advanceTimerRef.current = window.setTimeout(() => {
+        advanceTimerRef.current = null;
         setJustVoted(null);
         if (next >= pairs.length) finish();
         else setCurrent(next);
@@ -391,40 +907,169 @@ function startArena() {
     else setCurrent(next);
   }
 
+  function continueAfterReveal() {
+    setRevealing(false);
+    setJustVoted(null);
+    const next = current + 1;
+    if (next >= pairs.length) finish();
+    else setCurrent(next);
+  }
+
+  function undo() {
+    // Step back through the criteria of the current pair before undoing a vote
+    if (criterionIndex > 0 || Object.keys(pendingCriteria).length > 0) {
+      const answered = sessionCriteria.filter((c) => pendingCriteria[c.id]);
+      const last = answered[answered.length - 1];
+      if (last) {
+        const rest = { ...pendingCriteria };
+        delete rest[last.id];
+        setPendingCriteria(rest);
+        setCriterionIndex(sessionCriteria.indexOf(last));
+        return;
+      }
+    }
+    if (advanceTimerRef.current !== null) {
+      window.clearTimeout(advanceTimerRef.current);
+      advanceTimerRef.current = null;
+      setJustVoted(null);
+    }
+    if (revealing) {
+      setRevealing(false);
+      setJustVoted(null);
+    }
+    const last = votesRef.current.pop();
+    if (!last) return;
+    undoneRef.current[last.round] = last;
+    setPendingTags(last.tags ?? { left: [], right: [] });
+    setPendingReasons(last.reasons ?? []);
+    setPendingComment(last.comment ?? "");
+    setCurrent(last.round - 1);
+    setPairVisit((v) => v + 1);
+    persistSession(pairs, last.round - 1);
+    toast(`Undid vote for round ${last.round}`);
+  }
+
+  function changeVote(index: number, choice: VoteChoice) {
+    const existing = votesRef.current[index];
+    const pair = pairs[existing?.round - 1];
+    if (!existing || !pair || existing.choice === choice) return;
+    const primary = sessionCriteria[0];
+    votesRef.current[index] = {
+      ...existing,
+      choice,
+      winnerModel: winnerFor(pair, choice),
+      revisions: [...(existing.revisions ?? []), revisionOf(existing, "review")],
+      // The review list edits the overall choice, which mirrors the first criterion
+      ...(primary && existing.criteria
+        ? { criteria: { ...existing.criteria, [primary.id]: { choice, winnerModel: winnerFor(pair, choice) } } }
+        : {}),
+    };
+    setReviewVersion((v) => v + 1);
+    persistSession(pairs, current);
+  }
+
   function finish() {
-    const [m1, m2] = models;
-    const winsByModel: Record<string, number> = { [m1]: 0, [m2]: 0 };
+    const winsByModel: Record<string, number> = {};
+    const tiesByModel: Record<string, number> = {};
+    const bothBadByModel: Record<string, number> = {};
+    const appearancesByModel: Record<string, number> = {};
+    for (const m of models) {
+      winsByModel[m] = 0;
+      tiesByModel[m] = 0;
+      bothBadByModel[m] = 0;
+      appearancesByModel[m] = 0;
+    }
     let ties = 0;
     let bothBad = 0;
-
+    // Control pairs are scored separately and never count towards ratings
+    const votes = votesRef.current.filter((v) => !v.control);
+    const controls = votesRef.current.filter((v) => v.control);
+    const imageMeta: Record<string, ImageMetadata> = {};
+    const promptsShown: Record<string, PromptRecord> = {};
     for (const v of votesRef.current) {
-      if (v.winnerModel) winsByModel[v.winnerModel]++;
+      const pair = pairs[v.round - 1];
+      for (const img of pair ? [pair.left, pair.right] : []) if (img.meta) imageMeta[img.name] = img.meta;
+      if (pair && prompts[pair.left.id]) promptsShown[pair.left.id] = prompts[pair.left.id];
+    }
+
+    // Repeats only feed the test-retest report
+    const scored = scoredVotes(votes);
+    for (const v of scored) {
+      appearancesByModel[v.left.model]++;
+      appearancesByModel[v.right.model]++;
+      if (v.choice === "tie") {
+        ties++;
+        tiesByModel[v.left.model]++;
+        tiesByModel[v.right.model]++;
+      } else if (v.choice === "bothBad") {
+        bothBad++;
+        bothBadByModel[v.left.model]++;
+        bothBadByModel[v.right.model]++;
+      } else if (v.winnerModel) {
+        winsByModel[v.winnerModel]++;
+      }
     }
 
       const result: ArenaResult = {
       timestamp: new Date().toISOString(),
-      models: [m1, m2],
-      roundsPlanned: rounds,
-      roundsCompleted: votesRef.current.length,
+      rater: cleanProfile(rater),
+      models,
+      roundsPlanned: pairs.filter((p) => !p.control && !p.repeat).length,
+      seed,
+      datasetId,
+      ...(naming !== AUTO_NAMING ? { naming } : {}),
+      ...(environmentRef.current ? { environment: environmentRef.current } : {}),
+      sampling,
+      roundsCompleted: scored.length,
       winsByModel,
-      ties: 0,
-      bothBad: 0,
-      votes: votesRef.current,
+      appearancesByModel,
+      ties,
+      bothBad,
+      verdict: sessionVerdict(scored, significanceLevel),
+      ...(sessionCriteria.length ? { criteria: sessionCriteria } : {}),
+      ...(sessionTags.length ? { tags: sessionTags } : {}),
+      ...(sessionReasons.length ? { reasons: sessionReasons } : {}),
+      fastVoteThresholdMs: fastVoteMs,
+      ...(controls.length ? { controls, attention: attentionSummary(controls, minPassRate) } : {}),
+      ...(votes.some((v) => v.repeat) ? { repeatFraction } : {}),
+      ...(Object.keys(imageMeta).length ? { imageMeta } : {}),
+      ...(Object.keys(promptsShown).length ? { prompts: promptsShown } : {}),
+      votes,
     };
 
-    const winner =
-      winsByModel[m1] === winsByModel[m2]
-        ? "tie"
-        : winsByModel[m1] > winsByModel[m2]
-        ? m1
-        : m2;
+    const ranking = rankModels(winsByModel, tiesByModel, bothBadByModel, appearancesByModel);
+    // Only a statistically significant lead is reported as a winner
+    const winner = result.verdict.winner;
 
-    toast.success(
-      winner === "tie" ? "Result: tie" : `Winner: ${winner}`,
-      { duration: 3500 }
-    );
+    const { elo, bradleyTerry } = computeRatings(result);
+    const [first, second] = bradleyTerry.ratings;
+    const gap = first && second ? ratingGap(bradleyTerry, first.model, second.model) : null;
+
+    toast.success(describeVerdict(result.verdict), {
+      duration: 3500,
+      description: gap ? formatRatingGap(gap) : undefined,
+    });
 
-    downloadJSON(`image-arena-results-${Date.now()}.json`, { ...result, winner });
+    recordVoteCounts(votes);
+    saveLastResult(result);
+    setSavedSession(null);
+    clearSession().catch(() => {});
+    downloadJSON(`image-arena-results-${Date.now()}.json`, {
+      ...result,
+      ranking,
+      ratings: { elo: elo.ratings, bradleyTerry: bradleyTerry.ratings },
+      ...(sessionCriteria.length
+        ? {
+            ratingsByCriterion: Object.fromEntries(
+              Object.entries(computeRatingsByCriterion([result], sessionCriteria)).map(([id, r]) => [
+                id,
+                { elo: r.elo.ratings, bradleyTerry: r.bradleyTerry.ratings },
+              ])
+            ),
+          }
+        : {}),
+      winner,
+    });
     setPhase("results");
   }
 
@@ -434,7 +1079,7 @@ function startArena() {
     <div className="w-full">
       <Helmet>
         <title>Image Model Arena — Blind Image Comparison</title>
-        <meta name="description" content="Blind pairwise image comparison between two models. Upload, vote, and download JSON results." />
+        <meta name="description" content="Blind pairwise image comparison across two or more models. Upload, vote, and download JSON results." />
         <link rel="canonical" href="/" />
         <script type="application/ld+json">{JSON.stringify({
           "@context": "https://schema.org",
@@ -442,7 +1087,7 @@ function startArena() {
           name: "Image Model Arena",
           applicationCategory: "Multimedia",
           operatingSystem: "Web",
-          description: "Blind pairwise image comparison between two models with JSON export.",
+          description: "Blind pairwise image comparison across two or more models with JSON export.",
         })}</script>
       </Helmet>
 
@@ -453,8 +1098,344 @@ function startArena() {
           </CardHeader>
           <CardContent>
             <p className="text-md text-muted-foreground mb-6">
-              You are about to start an image arena. For faster voting, use the arrow keys.
+              You are about to start an image arena. For faster voting, use the arrow keys:
+              left/right to pick an image, up for a tie, down if both are bad. Backspace undoes the last vote.
             </p>
+            {datasets.length > 0 && (
+              <div className="mb-6 grid gap-4 rounded-md border p-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="dataset">Dataset</Label>
+                  <Select value={datasetId} onValueChange={selectDataset}>
+                    <SelectTrigger id="dataset">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_DATASET_ID}>Default (/images)</SelectItem>
+                      {datasets.map((d) => (
+                        <SelectItem key={d.id} value={d.id}>
+                          {d.id} ({d.imageCount} images)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="mb-6 grid gap-4 rounded-md border p-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="rater-id">Rater ID</Label>
+                <Input
+                  id="rater-id"
+                  placeholder="e.g. your name or study code"
+                  value={rater.id}
+                  onChange={(e) => setRater((prev) => ({ ...prev, id: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rater-expertise">Expertise (optional)</Label>
+                <Select
+                  value={rater.expertise || "unspecified"}
+                  onValueChange={(v) => setRater((prev) => ({ ...prev, expertise: v === "unspecified" ? undefined : v }))}
+                >
+                  <SelectTrigger id="rater-expertise">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unspecified">Not specified</SelectItem>
+                    {EXPERTISE_LEVELS.map((l) => (
+                      <SelectItem key={l.value} value={l.value}>
+                        {l.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rater-device">Display device (optional)</Label>
+                <Select
+                  value={rater.device || "unspecified"}
+                  onValueChange={(v) => setRater((prev) => ({ ...prev, device: v === "unspecified" ? undefined : v }))}
+                >
+                  <SelectTrigger id="rater-device">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unspecified">Not specified</SelectItem>
+                    {DISPLAY_DEVICES.map((d) => (
+                      <SelectItem key={d.value} value={d.value}>
+                        {d.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {models.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {models.length} models detected: {models.join(", ")}
+              </p>
+            )}
+
+            <div className="mt-6 space-y-3 rounded-md border p-4">
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="naming">File naming</Label>
+                  <Select value={namingPreset} onValueChange={setNamingPreset}>
+                    <SelectTrigger id="naming">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NAMING_PRESETS.map((p) => (
+                        <SelectItem key={p.value} value={p.value}>
+                          {p.label}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="custom">Custom template or regex</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {namingPreset === "custom" && (
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="custom-naming">Template or regex</Label>
+                    <Input
+                      id="custom-naming"
+                      className="font-mono"
+                      placeholder="{model}-{id} or ^(?<id>\d+)_(?<model>.+)$"
+                      value={customNaming}
+                      onChange={(e) => setCustomNaming(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+              {namingResult.error ? (
+                <p className="text-xs text-destructive">{namingResult.error}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Also settable as &quot;naming&quot; in /arena.config.json. Templates match the file name, or the
+                  path when they contain a /.
+                </p>
+              )}
+              {loadedImages.length > 0 && (
+                <NamingPreview rows={namingResult.rows.map(({ img, parsed }) => ({ name: img.name, parsed }))} />
+              )}
+            </div>
+
+            <ValidationPanel
+              report={validation}
+              checkingFiles={checkingFiles}
+              onCheckFiles={() => checkImageFiles().catch(() => setCheckingFiles(false))}
+              onDownload={downloadValidationReport}
+            />
+
+            <div className="mt-6 grid gap-4 sm:grid-cols-4">
+              <div className="space-y-2">
+                <Label htmlFor="rounds">Rounds</Label>
+                <Input
+                  id="rounds"
+                  type="number"
+                  min={1}
+                  max={availablePairs || undefined}
+                  value={rounds}
+                  onChange={(e) => setRounds(Math.max(1, Number(e.target.value) || 1))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {availablePairs} pairs available{rounds > availablePairs && availablePairs > 0 ? "; all will be used" : ""}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sampling">Sampling</Label>
+                <Select value={sampling} onValueChange={(v) => setSampling(v as SamplingStrategy)}>
+                  <SelectTrigger id="sampling">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SAMPLING_STRATEGIES.map((s) => (
+                      <SelectItem key={s.value} value={s.value}>
+                        {s.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="significance">Significance level</Label>
+                <Input
+                  id="significance"
+                  type="number"
+                  min={0.001}
+                  max={0.5}
+                  step={0.01}
+                  value={significanceLevel}
+                  onChange={(e) => {
+                    const v = Number(e.target.value);
+                    if (v > 0 && v < 1) setSignificanceLevel(v);
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">Leads with a higher p-value are reported as inconclusive</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fast-vote">Fast-vote threshold (ms)</Label>
+                <Input
+                  id="fast-vote"
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={fastVoteMs}
+                  onChange={(e) => setFastVoteMs(Math.max(0, Number(e.target.value) || 0))}
+                />
+                <p className="text-xs text-muted-foreground">Quicker votes are flagged in the results</p>
+              </div>
+            </div>
+
+            <div className="mt-6 space-y-2">
+              <Label htmlFor="seed">Seed</Label>
+              <div className="flex gap-2">
+                <Input id="seed" className="font-mono" value={seed} onChange={(e) => setSeed(e.target.value.trim())} />
+                <Button variant="outline" size="icon" onClick={() => setSeed(newSeed())} aria-label="New seed">
+                  <Dices className="h-4 w-4" aria-hidden="true" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The same images and seed give the same pairs, order and sides. Set it with ?seed= in the URL.
+                {sampling === "leastVoted" && " Least-voted sampling also depends on this browser's vote history."}
+              </p>
+            </div>
+
+            <div className="mt-6 flex items-center justify-between gap-3">
+              <Label htmlFor="reveal-after-vote">Reveal models and image metadata after each vote</Label>
+              <Switch id="reveal-after-vote" checked={revealAfterVote} onCheckedChange={setRevealAfterVote} />
+            </div>
+
+            <div className="mt-6 space-y-2">
+              <Label htmlFor="failure-tags">Failure tags (comma-separated, leave empty to disable)</Label>
+              <Input id="failure-tags" value={tagsText} onChange={(e) => setTagsText(e.target.value)} />
+              <p className="text-xs text-muted-foreground">
+                While voting, keys 1–9 toggle a tag on the left image and Shift+1–9 on the right image.
+              </p>
+            </div>
+
+            <div className="mt-6 space-y-2">
+              <Label htmlFor="reason-chips">Reason chips (comma-separated, leave empty to disable)</Label>
+              <Input id="reason-chips" value={reasonsText} onChange={(e) => setReasonsText(e.target.value)} />
+              <p className="text-xs text-muted-foreground">
+                Alt+1–9 toggle a reason; C opens the comment box and Esc returns to voting.
+              </p>
+            </div>
+
+            <div className="mt-6 space-y-4 rounded-md border p-4">
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="criteria-enabled">Multi-criteria voting</Label>
+                <Switch id="criteria-enabled" checked={criteriaEnabled} onCheckedChange={setCriteriaEnabled} />
+              </div>
+              {criteriaEnabled && (
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="criteria">Criteria (comma-separated)</Label>
+                    <Input id="criteria" value={criteriaText} onChange={(e) => setCriteriaText(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="criteria-layout">Layout</Label>
+                    <Select value={criteriaLayout} onValueChange={(v) => setCriteriaLayout(v as CriteriaLayout)}>
+                      <SelectTrigger id="criteria-layout">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="sequence">One criterion at a time</SelectItem>
+                        <SelectItem value="screen">All criteria on one screen</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="mt-6 space-y-4 rounded-md border p-4">
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="repeats-enabled">Repeated pairs</Label>
+                <Switch id="repeats-enabled" checked={repeatsEnabled} onCheckedChange={setRepeatsEnabled} />
+              </div>
+              {repeatsEnabled && (
+                <div className="space-y-2">
+                  <Label htmlFor="repeat-fraction">Share of rounds shown again later with sides swapped</Label>
+                  <Input
+                    id="repeat-fraction"
+                    type="number"
+                    min={0.05}
+                    max={0.5}
+                    step={0.05}
+                    value={repeatFraction}
+                    onChange={(e) => {
+                      const v = Number(e.target.value);
+                      if (v > 0 && v <= 0.5) setRepeatFraction(v);
+                    }}
+                  />
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Measures each rater&apos;s self-consistency. Repeats are extra rounds and never count towards wins or
+                ratings.
+              </p>
+            </div>
+
+            <div className="mt-6 space-y-4 rounded-md border p-4">
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="attention-enabled">Attention checks</Label>
+                <Switch id="attention-enabled" checked={attentionEnabled} onCheckedChange={setAttentionEnabled} />
+              </div>
+              {attentionEnabled && (
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="control-count">Control pairs</Label>
+                    <Input
+                      id="control-count"
+                      type="number"
+                      min={0}
+                      value={controlCount}
+                      onChange={(e) => setControlCount(Math.max(0, Number(e.target.value) || 0))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="min-pass-rate">Minimum pass rate</Label>
+                    <Input
+                      id="min-pass-rate"
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={minPassRate}
+                      onChange={(e) => {
+                        const v = Number(e.target.value);
+                        if (v >= 0 && v <= 1) setMinPassRate(v);
+                      }}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Kinds</Label>
+                    <ToggleGroup
+                      type="multiple"
+                      size="sm"
+                      className="flex-wrap justify-start"
+                      value={controlKinds}
+                      onValueChange={(v) => setControlKinds(v as ControlKind[])}
+                    >
+                      {CONTROL_KINDS.map((k) => (
+                        <ToggleGroupItem
+                          key={k.value}
+                          value={k.value}
+                          variant="outline"
+                          disabled={k.value === "gold" && goldPairs.length === 0}
+                        >
+                          {k.label}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                  <p className="text-xs text-muted-foreground sm:col-span-3">
+                    Control pairs are mixed in unannounced and kept out of the ratings. Gold pairs are read from
+                    /gold.csv as id;winner;loser rows ({goldPairs.length} loaded).
+                  </p>
+                </div>
+              )}
+            </div>
             {/* <div className="grid gap-4 sm:grid-cols-3">
               <div className="sm:col-span-2">
                 <p className="text-md text-muted-foreground">Counts by model</p>
@@ -468,20 +1449,30 @@ function startArena() {
               </div>
             </div> */}
 
-            <div className="mt-10 flex justify-center">
+            <div className="mt-10 flex flex-wrap justify-center gap-3">
               <Button
                 onClick={startArena}
-                disabled={images.length === 0}
+                disabled={images.length === 0 || !rater.id.trim()}
                 className="h-12 px-6 text-xl"
               >
                 Start Arena
               </Button>
+              {savedSession && resumablePairs && (
+                <>
+                  <Button variant="secondary" onClick={resumeSession} className="h-12 px-6 text-xl">
+                    Resume session (round {savedSession.current + 1}/{savedSession.pairs.length})
+                  </Button>
+                  <Button variant="ghost" onClick={discardSession} className="h-12">
+                    Discard
+                  </Button>
+                </>
+              )}
             </div>
 
             {/* Hidden controls retained for functionality */}
             <div className="hidden">
               <input id="images" type="file" accept="image/*" multiple onChange={(e) => onFileChange((e.target as HTMLInputElement).files)} />
-              <input id="csv" type="file" accept=".csv,text/csv" onChange={(e) => onCsvChange((e.target as HTMLInputElement).files)} />
+              <input id="csv" type="file" accept=".csv,.tsv,text/csv,text/tab-separated-values" onChange={(e) => onCsvChange((e.target as HTMLInputElement).files)} />
               <button onClick={() => setImages([])}>Clear</button>
             </div>
           </CardContent>
@@ -490,22 +1481,54 @@ function startArena() {
 
       {phase === "playing" && (
         <div className="mx-auto max-w-6xl">
-          <div className="mb-2 text-sm text-muted-foreground">Round {current + 1} / {pairs.length} — {progress}%</div>
+          <div className="mb-2 flex items-center justify-between gap-3 text-sm text-muted-foreground">
+            <span>Round {current + 1} / {pairs.length} — {progress}%</span>
+            <span className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={undo} disabled={votesRef.current.length === 0}>
+                <Undo2 className="h-4 w-4" aria-hidden="true" />
+                <span>Undo</span>
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setReviewOpen(true)} disabled={votesRef.current.length === 0}>
+                <History className="h-4 w-4" aria-hidden="true" />
+                <span>Review</span>
+              </Button>
+            </span>
+          </div>
           {pairs[current] && (
             <div className="mb-4 rounded-md border p-4 bg-muted/40">
               {(() => {
                 const left = pairs[current]!.left;
                 const id = left?.id ?? "";
-                const instruction = instructionsById[id];
+                // The CSV wins; a prompt recorded in the manifest fills gaps
+                const instruction = prompts[id]?.instruction || left?.meta?.prompt;
+                const details = promptMetadataEntries(prompts[id]);
                 return (
                   <div>
                     <div className="text-xs uppercase tracking-wide text-muted-foreground mb-1">Prompt</div>
                     <div className="whitespace-pre-wrap text-sm">{instruction || "—"}</div>
+                    {details.length > 0 && (
+                      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+                        {details.map(([label, value]) => (
+                          <Fragment key={label}>
+                            <dt className="text-muted-foreground">{label}</dt>
+                            <dd className="whitespace-pre-wrap">{value}</dd>
+                          </Fragment>
+                        ))}
+                      </dl>
+                    )}
                   </div>
                 );
               })()}
             </div>
           )}
+          {sessionCriteria.length > 0 && criteriaLayout === "sequence" && sessionCriteria[criterionIndex] && (
+            <div className="mb-4 text-center text-lg">
+              <span className="text-sm text-muted-foreground">
+                Criterion {criterionIndex + 1}/{sessionCriteria.length}:{" "}
+              </span>
+              <span className="font-semibold">{sessionCriteria[criterionIndex].label}</span>
+            </div>
+          )}
           <div className="grid gap-6 md:grid-cols-2">
             {([pairs[current]?.left, pairs[current]?.right] as const).map((img, idx) => (
               <Card key={idx} className="overflow-hidden group relative">
@@ -517,7 +1540,18 @@ function startArena() {
                         loading="lazy"
                         alt={`Arena candidate ${idx + 1}`}
                         className="max-h-full max-w-full object-contain cursor-zoom-in"
-                        onClick={() => setZoomSrc(img.url)}
+                        style={degradedStyle(pairs[current], idx)}
+                        onClick={() => {
+                          if (pairTimingRef.current) markZoomOpened(pairTimingRef.current);
+                          setZoomSrc(img.url);
+                          setZoomFilter(degradedStyle(pairs[current], idx)?.filter);
+                        }}
+                        ref={(el) => {
+                          imageRefs.current[idx] = el;
+                        }}
+                        onLoad={() => {
+                          if (pairTimingRef.current) markImageLoaded(pairTimingRef.current, idx === 0 ? "left" : "right", img.url);
+                        }}
                       />
                       {justVoted && ((justVoted === "left" && idx === 0) || (justVoted === "right" && idx === 1)) && (
                         <div className="absolute right-2 top-2 rounded-full bg-white/90 p-1 shadow">
@@ -527,8 +1561,43 @@ function startArena() {
                     </div>
                   )}
                 </CardContent>
+                {revealing && img && (
+                  <div className="border-t bg-muted/40 px-4 py-3 text-sm">
+                    <div className="font-semibold">{img.model}</div>
+                    <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs text-muted-foreground">
+                      <dt>File</dt>
+                      <dd className="truncate">{img.name}</dd>
+                      {img.meta?.seed !== undefined && (
+                        <>
+                          <dt>Seed</dt>
+                          <dd>{String(img.meta.seed)}</dd>
+                        </>
+                      )}
+                      {img.meta?.width && (
+                        <>
+                          <dt>Size</dt>
+                          <dd>
+                            {img.meta.width}×{img.meta.height}
+                          </dd>
+                        </>
+                      )}
+                      {Object.entries(img.meta?.params ?? {}).map(([key, value]) => (
+                        <Fragment key={key}>
+                          <dt>{key}</dt>
+                          <dd className="truncate">{typeof value === "string" ? value : JSON.stringify(value)}</dd>
+                        </Fragment>
+                      ))}
+                      {img.meta?.sha256 && (
+                        <>
+                          <dt>SHA-256</dt>
+                          <dd className="font-mono">{img.meta.sha256.slice(0, 12)}</dd>
+                        </>
+                      )}
+                    </dl>
+                  </div>
+                )}
                   <div className="p-4 flex gap-3">
-                  <Button className="flex-1 inline-flex items-center justify-center gap-2" onClick={() => vote(idx === 0 ? "left" : "right")} disabled={!!justVoted}>
+                  <Button className="flex-1 inline-flex items-center justify-center gap-2" onClick={() => vote(idx === 0 ? "left" : "right")} disabled={!!justVoted || revealing}>
                     {idx === 0 ? (
                       <ArrowLeft className="h-4 w-4" aria-hidden="true" />
                     ) : (
@@ -537,9 +1606,102 @@ function startArena() {
                     <span>This one</span>
                   </Button>
                 </div>
+                {sessionTags.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 px-4 pb-4">
+                    {sessionTags.map((tag, tagIdx) => {
+                      const side = idx === 0 ? "left" : "right";
+                      return (
+                        <Toggle
+                          key={tag.id}
+                          size="sm"
+                          variant="outline"
+                          className="h-7 text-xs data-[state=on]:border-destructive data-[state=on]:text-destructive"
+                          pressed={pendingTags[side].includes(tag.id)}
+                          onPressedChange={() => toggleImageTag(side, tag.id)}
+                        >
+                          {tagIdx < MAX_TAG_SHORTCUTS && (
+                            <kbd className="text-muted-foreground">
+                              {idx === 1 ? "⇧" : ""}
+                              {tagIdx + 1}
+                            </kbd>
+                          )}
+                          {tag.label}
+                        </Toggle>
+                      );
+                    })}
+                  </div>
+                )}
               </Card>
             ))}
           </div>
+          <div className="mt-4 flex justify-center gap-3">
+            {revealing && (
+              <Button onClick={continueAfterReveal}>{current + 1 >= pairs.length ? "Finish" : "Next pair"}</Button>
+            )}
+            <Button variant="outline" className="inline-flex items-center gap-2" onClick={() => vote("tie")} disabled={!!justVoted || revealing}>
+              <ArrowUp className="h-4 w-4" aria-hidden="true" />
+              <span>Tie</span>
+            </Button>
+            <Button variant="outline" className="inline-flex items-center gap-2" onClick={() => vote("bothBad")} disabled={!!justVoted || revealing}>
+              <ArrowDown className="h-4 w-4" aria-hidden="true" />
+              <span>Both bad</span>
+            </Button>
+          </div>
+          <div className="mx-auto mt-4 max-w-2xl space-y-2">
+            {sessionReasons.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-1.5">
+                {sessionReasons.map((reason, reasonIdx) => (
+                  <Toggle
+                    key={reason.id}
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    pressed={pendingReasons.includes(reason.id)}
+                    onPressedChange={() => setPendingReasons((prev) => toggleTag(prev, reason.id))}
+                  >
+                    {reasonIdx < MAX_TAG_SHORTCUTS && <kbd className="text-muted-foreground">⌥{reasonIdx + 1}</kbd>}
+                    {reason.label}
+                  </Toggle>
+                ))}
+              </div>
+            )}
+            <Textarea
+              ref={commentRef}
+              rows={2}
+              placeholder="Optional comment (press C to type, Esc to return to voting)"
+              value={pendingComment}
+              onChange={(e) => setPendingComment(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") {
+                  e.preventDefault();
+                  e.currentTarget.blur();
+                }
+              }}
+            />
+          </div>
+          {sessionCriteria.length > 0 && criteriaLayout === "screen" && (
+            <div className="mx-auto mt-6 max-w-2xl space-y-2">
+              {sessionCriteria.map((c, i) => (
+                <div
+                  key={c.id}
+                  className={`flex items-center justify-between gap-3 rounded-md border p-2 ${i === criterionIndex ? "border-primary bg-primary/5" : ""}`}
+                >
+                  <span className="text-sm font-medium">{c.label}</span>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={pendingCriteria[c.id] ?? ""}
+                    onValueChange={(value) => value && answerCriterion(c.id, value as VoteChoice)}
+                  >
+                    <ToggleGroupItem value="left">Left</ToggleGroupItem>
+                    <ToggleGroupItem value="right">Right</ToggleGroupItem>
+                    <ToggleGroupItem value="tie">Tie</ToggleGroupItem>
+                    <ToggleGroupItem value="bothBad">Both bad</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -551,16 +1713,74 @@ function startArena() {
           <CardContent>
             <p className="text-muted-foreground">A JSON file with your results has been downloaded.</p>
             <div className="mt-6 flex justify-center gap-3">
-              <Button onClick={() => setPhase("config")}>New Session</Button>
+              <Button variant="outline" asChild>
+                <Link to="/results">View results</Link>
+              </Button>
+              <Button
+                onClick={() => {
+                  setSeed(urlSeed ?? newSeed());
+                  setPhase("config");
+                }}
+              >
+                New Session
+              </Button>
             </div>
           </CardContent>
         </Card>
       )}
 
+      <Dialog open={reviewOpen} onOpenChange={setReviewOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Review previous rounds</DialogTitle>
+          </DialogHeader>
+          <div className="max-h-[70vh] space-y-3 overflow-y-auto pr-1">
+            {votesRef.current
+              .map((v, index) => ({ v, index }))
+              .reverse()
+              .map(({ v, index }) => {
+                const pair = pairs[v.round - 1];
+                if (!pair) return null;
+                return (
+                  <div key={v.round} className="flex items-center gap-3 rounded-md border p-2">
+                    <div className="w-16 text-sm text-muted-foreground">#{v.round}</div>
+                    {[pair.left, pair.right].map((img, idx) => (
+                      <img
+                        key={idx}
+                        src={img.url}
+                        alt={`Round ${v.round} ${idx === 0 ? "left" : "right"}`}
+                        className="h-16 w-16 rounded object-cover"
+                        style={degradedStyle(pair, idx)}
+                      />
+                    ))}
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      className="ml-auto"
+                      value={v.choice}
+                      onValueChange={(value) => value && changeVote(index, value as VoteChoice)}
+                    >
+                      <ToggleGroupItem value="left">Left</ToggleGroupItem>
+                      <ToggleGroupItem value="right">Right</ToggleGroupItem>
+                      <ToggleGroupItem value="tie">Tie</ToggleGroupItem>
+                      <ToggleGroupItem value="bothBad">Both bad</ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                );
+              })}
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={!!zoomSrc} onOpenChange={(open) => !open && setZoomSrc(null)}>
         <DialogContent className="w-[min(95vw,1200px)] max-w-none p-0 bg-transparent border-0 shadow-none">
           {zoomSrc && (
-            <img src={zoomSrc} alt="Zoomed" className="w-full h-[80vh] object-contain bg-black/80" />
+            <img
+              src={zoomSrc}
+              alt="Zoomed"
+              className="w-full h-[80vh] object-contain bg-black/80"
+              style={zoomFilter ? { filter: zoomFilter } : undefined}
+            />
           )}
         </DialogContent>
       </Dialog>
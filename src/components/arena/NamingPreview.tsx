@@ -0,0 +1,40 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ParsedName } from "@/lib/arena/naming";
+
+type PreviewRow = { name: string; parsed: ParsedName | null };
+
+// How each loaded file was read by the active naming rule. Unmatched files
+// are left out of the arena.
+export default function NamingPreview({ rows }: { rows: PreviewRow[] }) {
+  const unmatched = rows.filter((r) => !r.parsed).length;
+  const models = new Set(rows.flatMap((r) => (r.parsed ? [r.parsed.model] : []))).size;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {rows.length - unmatched} of {rows.length} files parsed into {models} models
+        {unmatched > 0 && <span className="text-destructive">; {unmatched} did not match and will be skipped</span>}.
+      </p>
+      <div className="max-h-64 overflow-y-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File</TableHead>
+              <TableHead>Model</TableHead>
+              <TableHead>Id</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((r) => (
+              <TableRow key={r.name} className={r.parsed ? "" : "text-destructive"}>
+                <TableCell className="font-mono text-xs">{r.name}</TableCell>
+                <TableCell>{r.parsed?.model ?? "not matched"}</TableCell>
+                <TableCell>{r.parsed?.id ?? ""}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,466 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ErrorBar, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import type { ArenaResult } from "@/lib/arena/types";
+import { bothBadPolicyNote, positionStats, promptOutcomes, winRates } from "@/lib/arena/analysis";
+import { computeRatings } from "@/lib/arena/rating";
+import { pct, seconds } from "@/lib/arena/format";
+import { describeVerdict, sessionVerdict } from "@/lib/arena/significance";
+import { failureRates } from "@/lib/arena/tags";
+import { hasRationale, searchRationales } from "@/lib/arena/reasons";
+import { sideCounts } from "@/lib/arena/counterbalance";
+import { DEFAULT_FAST_VOTE_MS, speedHistogram, speedStats } from "@/lib/arena/timing";
+import { CONTROL_KINDS, controlPassed, resultAttention } from "@/lib/arena/controls";
+import { consistencyReport, repeatOutcomes } from "@/lib/arena/consistency";
+
+const winRateConfig = {
+  winRate: { label: "Win rate (%)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const positionConfig = {
+  count: { label: "Votes", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const speedConfig = {
+  count: { label: "Votes", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const CHOICE_LABELS: Record<string, string> = {
+  left: "Left",
+  right: "Right",
+  tie: "Tie",
+  bothBad: "Both bad",
+};
+
+export default function ResultsDashboard({ result }: { result: ArenaResult }) {
+  const rates = useMemo(() => winRates(result), [result]);
+  const position = useMemo(() => positionStats(result.votes), [result]);
+  const sides = useMemo(() => sideCounts(result.votes), [result]);
+  const prompts = useMemo(() => promptOutcomes(result.votes), [result]);
+  const ratings = useMemo(() => computeRatings(result).bradleyTerry.ratings, [result]);
+  // Files exported before verdicts were recorded get one at the default level
+  const verdict = useMemo(() => result.verdict ?? sessionVerdict(result.votes), [result]);
+  const failures = useMemo(() => failureRates(result.votes), [result]);
+  const tags = result.tags ?? [];
+  const [commentQuery, setCommentQuery] = useState("");
+  const [commentModel, setCommentModel] = useState("all");
+  const hasRationales = useMemo(() => result.votes.some(hasRationale), [result]);
+  const rationales = useMemo(
+    () =>
+      searchRationales(result.votes, {
+        query: commentQuery,
+        model: commentModel === "all" ? "" : commentModel,
+        reasons: result.reasons,
+      }),
+    [result, commentQuery, commentModel]
+  );
+  const attention = useMemo(() => resultAttention(result), [result]);
+  const repeats = useMemo(() => repeatOutcomes(result.votes), [result]);
+  const consistency = useMemo(() => consistencyReport(repeats), [repeats]);
+  const speed = useMemo(() => speedStats(result.votes), [result]);
+  const speedData = useMemo(() => speedHistogram(result.votes), [result]);
+  const reasonLabel = (id: string) => result.reasons?.find((r) => r.id === id)?.label ?? id;
+
+  const rateData = rates.map((r) => ({
+    model: r.model,
+    winRate: +(r.winRate * 100).toFixed(1),
+    // ErrorBar takes [below, above] offsets from the bar value
+    ci: [+((r.winRate - r.lower) * 100).toFixed(1), +((r.upper - r.winRate) * 100).toFixed(1)],
+  }));
+  const positionData = (["left", "right", "tie", "bothBad"] as const).map((k) => ({
+    choice: CHOICE_LABELS[k],
+    count: position[k],
+  }));
+
+  const env = result.environment;
+  const setup = [
+    result.rater?.id && `Rater ${result.rater.id}`,
+    result.rater?.expertise,
+    result.rater?.device,
+    result.datasetId && `dataset ${result.datasetId}`,
+    env && `app ${env.appVersion}`,
+    env && `fingerprint ${env.datasetFingerprint}`,
+    env && `${env.viewport.width}×${env.viewport.height} viewport`,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-6">
+      {setup.length > 0 && (
+        <p className="text-sm text-muted-foreground" title={env?.userAgent}>
+          {setup.join(" · ")}
+        </p>
+      )}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-xs uppercase tracking-wide text-muted-foreground">Verdict</div>
+          <div className="text-xl font-semibold">{describeVerdict(verdict)}</div>
+          {verdict.leader && verdict.runnerUp && (
+            <p className="mt-1 text-sm text-muted-foreground">
+              {verdict.leader} won {pct(verdict.winRate)} of decisive head-to-head votes (95% CI {pct(verdict.lower)}–
+              {pct(verdict.upper)}); significance level {verdict.alpha}.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {attention && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3">
+              Attention checks
+              <Badge variant={attention.pass ? "secondary" : "destructive"}>{attention.pass ? "Passed" : "Failed"}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {attention.passed} of {attention.total} control pairs answered as expected ({pct(attention.passRate)};
+              minimum {pct(attention.minPassRate)}).
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Round</TableHead>
+                  <TableHead>Kind</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead>Choice</TableHead>
+                  <TableHead className="text-right">Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.controls!.map((v) => (
+                  <TableRow key={v.round}>
+                    <TableCell>{v.round}</TableCell>
+                    <TableCell>{CONTROL_KINDS.find((k) => k.value === v.control?.kind)?.label ?? v.control?.kind}</TableCell>
+                    <TableCell>{v.control?.expected.map((c) => CHOICE_LABELS[c] ?? c).join(" or ")}</TableCell>
+                    <TableCell>{CHOICE_LABELS[v.choice] ?? v.choice}</TableCell>
+                    <TableCell className="text-right">{controlPassed(v) ? "Pass" : "Fail"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-4">
+        {[
+          ["Rounds", `${result.roundsCompleted} / ${result.roundsPlanned}`],
+          ["Models", String(result.models.length)],
+          ["Ties", String(result.ties)],
+          ["Both bad", String(result.bothBad)],
+        ].map(([label, value]) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <div className="text-xs uppercase tracking-wide text-muted-foreground">{label}</div>
+              <div className="text-2xl font-semibold">{value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Win rate by model</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={winRateConfig} className="h-72 w-full aspect-auto">
+            <BarChart data={rateData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="model" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="winRate" fill="var(--color-winRate)" radius={4}>
+                <ErrorBar dataKey="ci" width={6} strokeWidth={1.5} stroke="hsl(var(--foreground))" />
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+          <Table className="mt-4">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">W / L / T / Bad</TableHead>
+                <TableHead className="text-right">Win rate (95% CI)</TableHead>
+                <TableHead className="text-right">Bradley-Terry (95% CI)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map((r) => {
+                const rating = ratings.find((x) => x.model === r.model);
+                return (
+                  <TableRow key={r.model}>
+                    <TableCell className="font-medium">{r.model}</TableCell>
+                    <TableCell className="text-right">
+                      {r.wins} / {r.losses} / {r.ties} / {r.bothBad}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {pct(r.winRate)} ({pct(r.lower)}–{pct(r.upper)})
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {rating
+                        ? `${Math.round(rating.rating)} (${Math.round(rating.lower)}–${Math.round(rating.upper)})`
+                        : "—"}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <p className="mt-2 text-xs text-muted-foreground">{bothBadPolicyNote()}</p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Position</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="mb-4 text-sm text-muted-foreground">
+            Left image chosen in {pct(position.leftRate)} of decisive votes (95% CI {pct(position.lower)}–
+            {pct(position.upper)}); side-bias sign test p = {position.pValue.toFixed(3)}.
+            {position.pValue < verdict.alpha && (
+              <Badge variant="destructive" className="ml-2">
+                Side bias
+              </Badge>
+            )}
+          </p>
+          <ChartContainer config={positionConfig} className="h-56 w-full aspect-auto">
+            <BarChart data={positionData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="choice" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+          <Table className="mt-4">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">Shown left</TableHead>
+                <TableHead className="text-right">Shown right</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.entries(sides)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([model, c]) => (
+                  <TableRow key={model}>
+                    <TableCell className="font-medium">{model}</TableCell>
+                    <TableCell className="text-right">{c.left}</TableCell>
+                    <TableCell className="text-right">{c.right}</TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {repeats.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3">
+              Test-retest consistency
+              {consistency.followsPosition && <Badge variant="destructive">Follows screen position</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {consistency.consistent} of {consistency.repeats} repeated pairs got the same verdict (
+              {pct(consistency.consistencyRate)}). In {consistency.position} of {consistency.decisive} decisive repeats
+              the pick moved with the screen side instead of staying with the image ({pct(consistency.positionRate)}).
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rounds</TableHead>
+                  <TableHead>Prompt id</TableHead>
+                  <TableHead>First</TableHead>
+                  <TableHead>Repeat</TableHead>
+                  <TableHead className="text-right">Outcome</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {repeats.map((r) => (
+                  <TableRow key={r.round}>
+                    <TableCell>
+                      {r.ofRound} → {r.round}
+                    </TableCell>
+                    <TableCell>{r.id}</TableCell>
+                    <TableCell>{r.first.winnerModel ?? CHOICE_LABELS[r.first.choice] ?? r.first.choice}</TableCell>
+                    <TableCell>{r.second.winnerModel ?? CHOICE_LABELS[r.second.choice] ?? r.second.choice}</TableCell>
+                    <TableCell className="text-right">
+                      {r.outcome === "consistent" ? "Consistent" : r.outcome === "position" ? "Same side" : "Changed"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {speed.count > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Response times</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Median {seconds(speed.medianMs)} (10th–90th percentile {seconds(speed.p10Ms)}–{seconds(speed.p90Ms)}).{" "}
+              {pct(speed.fastShare)} of votes were faster than the {result.fastVoteThresholdMs ?? DEFAULT_FAST_VOTE_MS} ms threshold and{" "}
+              {pct(speed.beforeLoadShare)} were cast before both images had loaded.
+            </p>
+            <ChartContainer config={speedConfig} className="h-56 w-full aspect-auto">
+              <BarChart data={speedData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {tags.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Failure modes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Any tag</TableHead>
+                  {tags.map((t) => (
+                    <TableHead key={t.id} className="text-right">
+                      {t.label}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {failures.map((row) => (
+                  <TableRow key={row.model}>
+                    <TableCell className="font-medium">{row.model}</TableCell>
+                    <TableCell className="text-right">{pct(row.appearances ? row.flagged / row.appearances : 0)}</TableCell>
+                    {tags.map((t) => (
+                      <TableCell key={t.id} className="text-right">
+                        {pct(row.appearances ? (row.counts[t.id] ?? 0) / row.appearances : 0)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {hasRationales && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Comments and reasons</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-3">
+              <Input
+                className="sm:col-span-2"
+                placeholder="Search comments and reasons"
+                value={commentQuery}
+                onChange={(e) => setCommentQuery(e.target.value)}
+              />
+              <Select value={commentModel} onValueChange={setCommentModel}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All models</SelectItem>
+                  {result.models.map((m) => (
+                    <SelectItem key={m} value={m}>
+                      {m}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="max-h-96 space-y-2 overflow-y-auto">
+              {rationales.map((v) => (
+                <div key={v.round} className="rounded-md border p-3 text-sm">
+                  <div className="mb-1 text-xs text-muted-foreground">
+                    Round {v.round} · prompt {v.left.id} · {v.left.model} vs {v.right.model} ·{" "}
+                    {v.winnerModel ?? CHOICE_LABELS[v.choice] ?? v.choice}
+                  </div>
+                  {v.reasons && v.reasons.length > 0 && (
+                    <div className="mb-1 flex flex-wrap gap-1">
+                      {v.reasons.map((r) => (
+                        <Badge key={r} variant="secondary">
+                          {reasonLabel(r)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {v.comment && <p className="whitespace-pre-wrap">{v.comment}</p>}
+                </div>
+              ))}
+              {rationales.length === 0 && <p className="text-sm text-muted-foreground">No matching comments.</p>}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Per-prompt outcomes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prompt id</TableHead>
+                <TableHead>Left</TableHead>
+                <TableHead>Right</TableHead>
+                <TableHead>Choice</TableHead>
+                <TableHead>Winner</TableHead>
+                <TableHead className="text-right">Time</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {prompts.flatMap((p) =>
+                p.votes.map((v, i) => (
+                  <TableRow key={`${p.id}-${v.round}`}>
+                    <TableCell className="font-medium">{i === 0 ? p.id : ""}</TableCell>
+                    <TableCell>{v.left.model}</TableCell>
+                    <TableCell>{v.right.model}</TableCell>
+                    <TableCell>{CHOICE_LABELS[v.choice] ?? v.choice}</TableCell>
+                    <TableCell>{v.winnerModel ?? "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {v.timing ? seconds(v.timing.responseMs) : "—"}
+                      {v.timing?.fast && (
+                        <Badge variant="outline" className="ml-2">
+                          fast
+                        </Badge>
+                      )}
+                      {v.timing?.beforeLoad && (
+                        <Badge variant="outline" className="ml-2">
+                          before load
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { issueCount, type ValidationReport } from "@/lib/arena/validation";
+
+// Long lists are cut short here; the downloaded report has everything
+const MAX_LISTED = 12;
+
+function List({ items }: { items: string[] }) {
+  const shown = items.slice(0, MAX_LISTED);
+  return (
+    <span className="font-mono text-xs">
+      {shown.join(", ")}
+      {items.length > shown.length && ` and ${items.length - shown.length} more`}
+    </span>
+  );
+}
+
+export default function ValidationPanel({
+  report,
+  checkingFiles,
+  onCheckFiles,
+  onDownload,
+}: {
+  report: ValidationReport;
+  checkingFiles: boolean;
+  onCheckFiles: () => void;
+  onDownload: () => void;
+}) {
+  const issues = issueCount(report);
+  const orphans = Object.entries(report.orphans);
+
+  return (
+    <div className="mt-6 space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Dataset checks</span>
+        <Badge variant={issues > 0 ? "destructive" : "secondary"}>
+          {issues > 0 ? `${issues} issue${issues === 1 ? "" : "s"}` : "No issues"}
+        </Badge>
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" onClick={onCheckFiles} disabled={checkingFiles || report.imageCount === 0}>
+            {checkingFiles ? "Checking files…" : "Check image files"}
+          </Button>
+          <Button variant="outline" size="sm" onClick={onDownload}>
+            Download report
+          </Button>
+        </div>
+      </div>
+      {issues > 0 && (
+        <ul className="space-y-1 text-sm">
+          {orphans.map(([model, files]) => (
+            <li key={model}>
+              {files.length} orphan image{files.length === 1 ? "" : "s"} for <b>{model}</b> (no other model has the
+              id): <List items={files} />
+            </li>
+          ))}
+          {report.duplicates.length > 0 && (
+            <li>
+              {report.duplicates.length} duplicate model/id key{report.duplicates.length === 1 ? "" : "s"}, only one
+              file each is used: <List items={report.duplicates.map((d) => `${d.model}/${d.id} (${d.files.join(" | ")})`)} />
+            </li>
+          )}
+          {report.missingInstructions.length > 0 && (
+            <li>
+              {report.missingInstructions.length} id{report.missingInstructions.length === 1 ? "" : "s"} without an
+              instruction: <List items={report.missingInstructions} />
+            </li>
+          )}
+          {report.extraInstructions.length > 0 && (
+            <li>
+              {report.extraInstructions.length} instruction{report.extraInstructions.length === 1 ? "" : "s"} without
+              images: <List items={report.extraInstructions} />
+            </li>
+          )}
+          {report.unreadable.length > 0 && (
+            <li className="text-destructive">
+              {report.unreadable.length} unreadable image{report.unreadable.length === 1 ? "" : "s"}:{" "}
+              <List items={report.unreadable.map((u) => u.file)} />
+            </li>
+          )}
+          {report.skipped.length > 0 && (
+            <li>
+              {report.skipped.length} skipped file{report.skipped.length === 1 ? "" : "s"}: <List items={report.skipped} />
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import type { ArenaVote, SourcedResult } from "./types";
+import { pairKey } from "./sampling";
+import { raterOf } from "./rater";
+import { verdictOf } from "./analysis";
+
+// Agreement is measured per matchup (prompt id + model pair), with each vote
+// reduced to the side-independent verdict: the winning model, "tie" or "bothBad".
+
+export type PairwiseKappa = {
+  raterA: string;
+  raterB: string;
+  items: number;
+  observed: number;
+  kappa: number | null;
+};
+
+export type ItemAgreement = {
+  key: string;
+  id: string;
+  raters: number;
+  majority: string;
+  majorityShare: number;
+  // Share of rater pairs that gave the same verdict
+  pairwiseAgreement: number;
+};
+
+export type AgreementReport = {
+  raters: string[];
+  sharedItems: number;
+  cohen: PairwiseKappa[];
+  krippendorffAlpha: number | null;
+  items: ItemAgreement[];
+};
+
+// rater -> matchup key -> verdict; a later vote on the same matchup replaces
+// an earlier one from the same rater, except for in-session repeats
+function verdictTable(items: SourcedResult[]) {
+  const table: Record<string, Record<string, string>> = {};
+  const ids: Record<string, string> = {};
+  for (const item of items) {
+    const rater = raterOf(item);
+    const row = (table[rater] ??= {});
+    for (const v of item.result.votes) {
+      if (v.repeat) continue;
+      const key = pairKey(v.left.id, v.left.model, v.right.model);
+      row[key] = verdictOf(v);
+      ids[key] = v.left.id;
+    }
+  }
+  return { table, ids };
+}
+
+export function cohenKappa(a: string[], b: string[]): number | null {
+  const n = Math.min(a.length, b.length);
+  if (n === 0) return null;
+  const ca: Record<string, number> = {};
+  const cb: Record<string, number> = {};
+  let agree = 0;
+  for (let i = 0; i < n; i++) {
+    if (a[i] === b[i]) agree++;
+    ca[a[i]] = (ca[a[i]] ?? 0) + 1;
+    cb[b[i]] = (cb[b[i]] ?? 0) + 1;
+  }
+  const po = agree / n;
+  let pe = 0;
+  for (const c of Object.keys(ca)) pe += (ca[c] / n) * ((cb[c] ?? 0) / n);
+  return pe === 1 ? null : (po - pe) / (1 - pe);
+}
+
+// Nominal Krippendorff's alpha; tolerates units rated by different numbers of
+// raters, which is the normal case when sessions sample different pairs
+export function krippendorffAlpha(units: string[][]): number | null {
+  const coincidence: Record<string, Record<string, number>> = {};
+  for (const values of units) {
+    const m = values.length;
+    if (m < 2) continue;
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < m; j++) {
+        if (i === j) continue;
+        const row = (coincidence[values[i]] ??= {});
+        row[values[j]] = (row[values[j]] ?? 0) + 1 / (m - 1);
+      }
+    }
+  }
+  const cats = Object.keys(coincidence);
+  const nc: Record<string, number> = {};
+  let n = 0;
+  for (const c of cats) {
+    nc[c] = Object.values(coincidence[c]).reduce((s, x) => s + x, 0);
+    n += nc[c];
+  }
+  if (n <= 1) return null;
+  let observed = 0;
+  let expected = 0;
+  for (const c of cats) {
+    for (const k of cats) {
+      if (c === k) continue;
+      observed += coincidence[c][k] ?? 0;
+      expected += nc[c] * nc[k];
+    }
+  }
+  if (expected === 0) return null;
+  return 1 - ((n - 1) * observed) / expected;
+}
+
+export function agreementReport(items: SourcedResult[]): AgreementReport {
+  const { table, ids } = verdictTable(items);
+  const raters = Object.keys(table).sort();
+
+  const cohen: PairwiseKappa[] = [];
+  for (let i = 0; i < raters.length; i++) {
+    for (let j = i + 1; j < raters.length; j++) {
+      const ra = table[raters[i]];
+      const rb = table[raters[j]];
+      const shared = Object.keys(ra).filter((k) => k in rb);
+      const a = shared.map((k) => ra[k]);
+      const b = shared.map((k) => rb[k]);
+      const agree = a.filter((x, idx) => x === b[idx]).length;
+      cohen.push({
+        raterA: raters[i],
+        raterB: raters[j],
+        items: shared.length,
+        observed: shared.length ? agree / shared.length : 0,
+        kappa: cohenKappa(a, b),
+      });
+    }
+  }
+
+  const unitValues: Record<string, string[]> = {};
+  for (const r of raters) {
+    for (const [key, verdict] of Object.entries(table[r])) (unitValues[key] ??= []).push(verdict);
+  }
+  const multiRated = Object.entries(unitValues).filter(([, v]) => v.length >= 2);
+
+  const itemRows = multiRated
+    .map(([key, values]) => {
+      const counts: Record<string, number> = {};
+      for (const v of values) counts[v] = (counts[v] ?? 0) + 1;
+      const [majority, top] = Object.entries(counts).sort((x, y) => y[1] - x[1])[0];
+      const m = values.length;
+      let agreeingPairs = 0;
+      for (const c of Object.values(counts)) agreeingPairs += (c * (c - 1)) / 2;
+      return {
+        key,
+        id: ids[key],
+        raters: m,
+        majority,
+        majorityShare: top / m,
+        pairwiseAgreement: agreeingPairs / ((m * (m - 1)) / 2),
+      };
+    })
+    .sort((a, b) => a.pairwiseAgreement - b.pairwiseAgreement || a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+  return {
+    raters,
+    sharedItems: multiRated.length,
+    cohen,
+    krippendorffAlpha: krippendorffAlpha(multiRated.map(([, v]) => v)),
+    items: itemRows,
+  };
+}
@@ -0,0 +1,116 @@
+import type { ArenaResult, ArenaVote } from "./types";
+import { binomialTwoSidedP, wilsonInterval } from "./stats";
+
+export type ModelWinRate = {
+  model: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  bothBad: number;
+  appearances: number;
+  // Ties, and both-bad votes under the default policy, count as half a win,
+  // matching the in-session ranking and the ratings
+  winRate: number;
+  lower: number;
+  upper: number;
+};
+
+export type PositionStats = {
+  left: number;
+  right: number;
+  tie: number;
+  bothBad: number;
+  // Share of decisive votes that went to the left image
+  leftRate: number;
+  lower: number;
+  upper: number;
+  // Sign test of left against right picks; with counterbalanced sides an
+  // unbiased rater picks left half the time
+  pValue: number;
+};
+
+export type PromptOutcome = {
+  id: string;
+  votes: ArenaVote[];
+  winsByModel: Record<string, number>;
+};
+
+// Both-bad votes count as draws in win rates, the in-session ranking and the
+// ratings alike; when off they are left out of all three
+export const BOTH_BAD_AS_TIE = true;
+
+export function bothBadPolicyNote(bothBadAsTie = BOTH_BAD_AS_TIE): string {
+  return bothBadAsTie
+    ? "Both-bad votes count as ties in win rates and ratings."
+    : "Both-bad votes are left out of win rates and ratings.";
+}
+
+// Repeats re-show a pair the same rater already judged, so they are not
+// independent observations; only the first judgement is scored
+export function scoredVotes(votes: ArenaVote[]): ArenaVote[] {
+  return votes.filter((v) => !v.repeat);
+}
+
+// Side-independent outcome of a vote: the winning model, "tie" or "bothBad"
+export function verdictOf(vote: ArenaVote): string {
+  if (vote.choice === "tie" || vote.choice === "bothBad") return vote.choice;
+  return vote.winnerModel ?? vote.choice;
+}
+
+export function winRates(result: Pick<ArenaResult, "votes">, bothBadAsTie = BOTH_BAD_AS_TIE): ModelWinRate[] {
+  const rows: Record<string, ModelWinRate> = {};
+  const row = (model: string) =>
+    (rows[model] ??= { model, wins: 0, losses: 0, ties: 0, bothBad: 0, appearances: 0, winRate: 0, lower: 0, upper: 1 });
+  for (const v of scoredVotes(result.votes)) {
+    const l = row(v.left.model);
+    const r = row(v.right.model);
+    l.appearances++;
+    r.appearances++;
+    if (v.choice === "tie") {
+      l.ties++;
+      r.ties++;
+    } else if (v.choice === "bothBad") {
+      l.bothBad++;
+      r.bothBad++;
+    } else if (v.winnerModel === l.model) {
+      l.wins++;
+      r.losses++;
+    } else if (v.winnerModel === r.model) {
+      r.wins++;
+      l.losses++;
+    }
+  }
+  return Object.values(rows)
+    .map((r) => {
+      const score = r.wins + (r.ties + (bothBadAsTie ? r.bothBad : 0)) / 2;
+      const games = bothBadAsTie ? r.appearances : r.appearances - r.bothBad;
+      const { lower, upper } = wilsonInterval(score, games);
+      return { ...r, winRate: games ? score / games : 0, lower, upper };
+    })
+    .sort((a, b) => b.winRate - a.winRate);
+}
+
+export function positionStats(votes: ArenaVote[]): PositionStats {
+  const stats = { left: 0, right: 0, tie: 0, bothBad: 0 };
+  for (const v of votes) stats[v.choice]++;
+  const decisive = stats.left + stats.right;
+  const { lower, upper } = wilsonInterval(stats.left, decisive);
+  return {
+    ...stats,
+    leftRate: decisive ? stats.left / decisive : 0,
+    lower,
+    upper,
+    pValue: binomialTwoSidedP(stats.left, decisive),
+  };
+}
+
+export function promptOutcomes(votes: ArenaVote[]): PromptOutcome[] {
+  const byId: Record<string, PromptOutcome> = {};
+  for (const v of scoredVotes(votes)) {
+    const id = v.left.id;
+    const entry = (byId[id] ??= { id, votes: [], winsByModel: {} });
+    entry.votes.push(v);
+    if (v.winnerModel) entry.winsByModel[v.winnerModel] = (entry.winsByModel[v.winnerModel] ?? 0) + 1;
+  }
+  return Object.values(byId).sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+}
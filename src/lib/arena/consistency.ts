@@ -0,0 +1,91 @@
+import type { ArenaVote } from "./types";
+import { verdictOf } from "./analysis";
+
+// Share used once repeats are switched on; they add rounds beyond the
+// configured count and are off by default
+export const DEFAULT_REPEAT_FRACTION = 0.1;
+
+// Raters with at least this many decisive repeats are flagged when this share
+// of them went to the same screen side rather than the same image
+export const POSITION_FOLLOWING_THRESHOLD = 0.5;
+export const MIN_REPEATS_FOR_FLAG = 3;
+
+export type RepeatOutcome = {
+  round: number;
+  ofRound: number;
+  id: string;
+  first: ArenaVote;
+  second: ArenaVote;
+  // "position": both votes decisive but for different images, i.e. the same
+  // screen side since the repeat swaps sides
+  outcome: "consistent" | "position" | "inconsistent";
+};
+
+export type ConsistencyReport = {
+  repeats: number;
+  consistent: number;
+  // Repeats where both votes were decisive
+  decisive: number;
+  position: number;
+  consistencyRate: number;
+  positionRate: number;
+  followsPosition: boolean;
+};
+
+type Repeatable = { left: unknown; right: unknown; control?: unknown; repeat?: { ofRound: number } };
+
+// Re-shows `fraction` of the eligible pairs later in the session with sides
+// swapped. Each repeat is placed at a random position after its original and
+// records the original's round once all repeats are in place.
+export function addRepeats<P extends Repeatable>(pairs: P[], fraction: number, shuffle: <U>(items: U[]) => U[], random: () => number): P[] {
+  const eligible = pairs.filter((p) => !p.control && !p.repeat);
+  const count = Math.round(Math.max(0, Math.min(1, fraction)) * eligible.length);
+  const out = pairs.slice();
+  const originals = new Map<P, P>();
+  for (const original of shuffle(eligible).slice(0, count)) {
+    const copy = { ...original, left: original.right, right: original.left, repeat: { ofRound: 0 } };
+    const idx = out.indexOf(original);
+    out.splice(idx + 1 + Math.floor(random() * (out.length - idx)), 0, copy);
+    originals.set(copy, original);
+  }
+  for (const [copy, original] of originals) copy.repeat!.ofRound = out.indexOf(original) + 1;
+  return out;
+}
+
+// Pairs each repeat vote with the vote on its original round
+export function repeatOutcomes(votes: ArenaVote[]): RepeatOutcome[] {
+  const byRound = new Map(votes.map((v) => [v.round, v]));
+  const out: RepeatOutcome[] = [];
+  for (const second of votes) {
+    if (!second.repeat) continue;
+    const first = byRound.get(second.repeat.ofRound);
+    if (!first) continue;
+    const decisive = (v: ArenaVote) => v.choice === "left" || v.choice === "right";
+    const outcome =
+      verdictOf(first) === verdictOf(second)
+        ? "consistent"
+        : decisive(first) && decisive(second)
+          ? "position"
+          : "inconsistent";
+    out.push({ round: second.round, ofRound: first.round, id: first.left.id, first, second, outcome });
+  }
+  return out;
+}
+
+export function consistencyReport(outcomes: RepeatOutcome[]): ConsistencyReport {
+  const consistent = outcomes.filter((o) => o.outcome === "consistent").length;
+  const position = outcomes.filter((o) => o.outcome === "position").length;
+  const decisive = outcomes.filter(
+    (o) => o.first.choice !== "tie" && o.first.choice !== "bothBad" && o.second.choice !== "tie" && o.second.choice !== "bothBad"
+  ).length;
+  const positionRate = decisive ? position / decisive : 0;
+  return {
+    repeats: outcomes.length,
+    consistent,
+    decisive,
+    position,
+    consistencyRate: outcomes.length ? consistent / outcomes.length : 0,
+    positionRate,
+    followsPosition: decisive >= MIN_REPEATS_FOR_FLAG && positionRate >= POSITION_FOLLOWING_THRESHOLD,
+  };
+}
@@ -0,0 +1,112 @@
+import type { ArenaResult, ArenaVote, VoteChoice } from "./types";
+import { parseDelimited } from "./csv";
+import type { Sided } from "./counterbalance";
+
+export type ControlKind = "identical" | "corrupted" | "gold";
+
+export const CONTROL_KINDS: Array<{ value: ControlKind; label: string }> = [
+  { value: "identical", label: "Identical images" },
+  { value: "corrupted", label: "Degraded copy" },
+  { value: "gold", label: "Gold pairs" },
+];
+
+export const DEFAULT_CONTROL_COUNT = 4;
+export const DEFAULT_MIN_PASS_RATE = 0.75;
+
+// Applied to the degraded side of a "corrupted" control pair
+export const DEGRADED_FILTER = "blur(6px) contrast(0.7) saturate(0.6)";
+
+// Attached to a control pair and copied onto its vote
+export type ControlCheck = {
+  kind: ControlKind;
+  // Any of these choices passes
+  expected: VoteChoice[];
+  degraded?: "left" | "right";
+};
+
+// A curated matchup where `winner` is known to be the better image
+export type GoldPair = { id: string; winner: string; loser: string };
+
+export type AttentionSummary = {
+  total: number;
+  passed: number;
+  passRate: number;
+  minPassRate: number;
+  pass: boolean;
+  byKind: Partial<Record<ControlKind, { total: number; passed: number }>>;
+};
+
+// Reads "id;winner;loser" rows (comma also accepted), with an optional header
+export function parseGoldCSV(text: string): GoldPair[] {
+  const out: GoldPair[] = [];
+  for (const [id, winner, loser] of parseDelimited(text).map((row) => row.map((c) => c.trim()))) {
+    if (!id || !winner || !loser || id.toLowerCase() === "id") continue;
+    out.push({ id, winner, loser });
+  }
+  return out;
+}
+
+export function controlPassed(vote: ArenaVote): boolean {
+  return !!vote.control && vote.control.expected.includes(vote.choice);
+}
+
+// Builds `count` control pairs, cycling through the enabled kinds. Kinds that
+// cannot be built (e.g. gold without a matching image) are skipped.
+export function buildControls<T>(
+  count: number,
+  kinds: ControlKind[],
+  { images, gold, random }: { images: T[]; gold: Array<Sided<T>>; random: () => number }
+): Array<Sided<T> & { control: ControlCheck }> {
+  const pick = <U>(items: U[]) => items[Math.floor(random() * items.length)];
+  const usable = kinds.filter((k) => (k === "gold" ? gold.length > 0 : images.length > 0));
+  const out: Array<Sided<T> & { control: ControlCheck }> = [];
+  for (let i = 0; i < count && usable.length > 0; i++) {
+    const kind = usable[i % usable.length];
+    const flip = random() < 0.5;
+    if (kind === "identical") {
+      const img = pick(images);
+      out.push({ left: img, right: img, control: { kind, expected: ["tie", "bothBad"] } });
+    } else if (kind === "corrupted") {
+      const img = pick(images);
+      const degraded = flip ? "left" : "right";
+      out.push({ left: img, right: img, control: { kind, expected: [flip ? "right" : "left"], degraded } });
+    } else {
+      const g = pick(gold);
+      out.push(
+        flip
+          ? { left: g.right, right: g.left, control: { kind, expected: ["right"] } }
+          : { left: g.left, right: g.right, control: { kind, expected: ["left"] } }
+      );
+    }
+  }
+  return out;
+}
+
+// Inserts controls at random positions, never as the very first pair
+export function injectControls<P>(pairs: P[], controls: P[], random: () => number): P[] {
+  const out = pairs.slice();
+  for (const c of controls) out.splice(1 + Math.floor(random() * out.length), 0, c);
+  return out;
+}
+
+export function attentionSummary(controls: ArenaVote[], minPassRate = DEFAULT_MIN_PASS_RATE): AttentionSummary {
+  const byKind: AttentionSummary["byKind"] = {};
+  let passed = 0;
+  for (const v of controls) {
+    if (!v.control) continue;
+    const row = (byKind[v.control.kind] ??= { total: 0, passed: 0 });
+    row.total++;
+    if (controlPassed(v)) {
+      row.passed++;
+      passed++;
+    }
+  }
+  const total = Object.values(byKind).reduce((s, r) => s + r.total, 0);
+  const passRate = total ? passed / total : 1;
+  return { total, passed, passRate, minPassRate, pass: passRate >= minPassRate, byKind };
+}
+
+export function resultAttention(result: ArenaResult): AttentionSummary | null {
+  if (!result.controls?.length) return null;
+  return attentionSummary(result.controls, result.attention?.minPassRate);
+}
@@ -0,0 +1,52 @@
+export type Sided<T> = { left: T; right: T };
+
+function swapSides<T>(pair: Sided<T>): Sided<T> {
+  return { left: pair.right, right: pair.left };
+}
+
+// Assigns sides so each matchup shows each model on the left exactly as often
+// as on the right. Pairs of the same matchup are grouped into blocks of two
+// with opposite sides, and the blocks are shuffled, so the balance also holds
+// for a session that is stopped early. A matchup with an odd count leaves one
+// pair over; it is oriented towards whichever model is short on the left.
+export function counterbalance<T extends { model: string }>(
+  pairs: Array<Sided<T>>,
+  shuffle: <U>(items: U[]) => U[]
+): Array<Sided<T>> {
+  const byMatchup: Record<string, Array<Sided<T>>> = {};
+  for (const p of pairs) {
+    const canonical = p.left.model <= p.right.model ? p : swapSides(p);
+    (byMatchup[`${canonical.left.model}|${canonical.right.model}`] ??= []).push(canonical);
+  }
+
+  const blocks: Array<Array<Sided<T>>> = [];
+  const leftovers: Array<Sided<T>> = [];
+  for (const list of Object.values(byMatchup)) {
+    const items = shuffle(list);
+    for (let i = 0; i + 1 < items.length; i += 2) blocks.push([items[i], swapSides(items[i + 1])]);
+    if (items.length % 2 === 1) leftovers.push(items[items.length - 1]);
+  }
+
+  // Left-minus-right placements per model; full blocks contribute zero
+  const balance: Record<string, number> = {};
+  const skew = (m: string) => balance[m] ?? 0;
+  for (const pair of shuffle(leftovers)) {
+    const diff = skew(pair.left.model) - skew(pair.right.model);
+    const oriented = diff > 0 ? swapSides(pair) : diff < 0 ? pair : shuffle([pair, swapSides(pair)])[0];
+    balance[oriented.left.model] = skew(oriented.left.model) + 1;
+    balance[oriented.right.model] = skew(oriented.right.model) - 1;
+    blocks.push([oriented]);
+  }
+
+  return shuffle(blocks).flatMap((block) => shuffle(block));
+}
+
+// Left/right placement counts per model, for checking a session's balance
+export function sideCounts(pairs: Array<Sided<{ model: string }>>): Record<string, { left: number; right: number }> {
+  const counts: Record<string, { left: number; right: number }> = {};
+  for (const p of pairs) {
+    (counts[p.left.model] ??= { left: 0, right: 0 }).left++;
+    (counts[p.right.model] ??= { left: 0, right: 0 }).right++;
+  }
+  return counts;
+}
@@ -0,0 +1,68 @@
+import type { ArenaResult, ArenaVote, VoteChoice } from "./types";
+import { computeRatings, type RatingOptions, type RatingReport } from "./rating";
+import { scoredVotes } from "./analysis";
+import { parseLabelList, type LabelItem } from "./labels";
+
+export type Criterion = LabelItem;
+
+export type CriteriaLayout = "screen" | "sequence";
+
+export type CriterionVote = {
+  choice: VoteChoice;
+  winnerModel: string | null;
+};
+
+export const DEFAULT_CRITERIA: Criterion[] = [
+  { id: "prompt-adherence", label: "Prompt adherence" },
+  { id: "aesthetics", label: "Aesthetics" },
+  { id: "realism", label: "Realism" },
+];
+
+export function parseCriteria(text: string): Criterion[] {
+  return parseLabelList(text, "criterion");
+}
+
+// Rewrites each vote so its top-level choice is the one given for `id`.
+// Votes without that criterion are dropped.
+export function votesForCriterion(votes: ArenaVote[], id: string): ArenaVote[] {
+  const out: ArenaVote[] = [];
+  for (const v of votes) {
+    const c = v.criteria?.[id];
+    if (c) out.push({ ...v, choice: c.choice, winnerModel: c.winnerModel });
+  }
+  return out;
+}
+
+// The same session seen through a single criterion, so every analysis that
+// reads `votes` can report that criterion on its own
+export function resultForCriterion(result: ArenaResult, id: string): ArenaResult {
+  const votes = votesForCriterion(result.votes, id);
+  const winsByModel: Record<string, number> = {};
+  for (const m of result.models) winsByModel[m] = 0;
+  const scored = scoredVotes(votes);
+  for (const v of scored) if (v.winnerModel) winsByModel[v.winnerModel] = (winsByModel[v.winnerModel] ?? 0) + 1;
+  return {
+    ...result,
+    winsByModel,
+    ties: scored.filter((v) => v.choice === "tie").length,
+    bothBad: scored.filter((v) => v.choice === "bothBad").length,
+    verdict: undefined,
+    votes,
+  };
+}
+
+export function computeRatingsByCriterion(
+  results: ArenaResult[],
+  criteria: Criterion[],
+  options: RatingOptions = {}
+): Record<string, { elo: RatingReport; bradleyTerry: RatingReport }> {
+  const out: Record<string, { elo: RatingReport; bradleyTerry: RatingReport }> = {};
+  for (const c of criteria) out[c.id] = computeRatings(results.map((r) => resultForCriterion(r, c.id)), options);
+  return out;
+}
+
+export function criteriaOf(results: ArenaResult[]): Criterion[] {
+  const byId = new Map<string, Criterion>();
+  for (const r of results) for (const c of r.criteria ?? []) if (!byId.has(c.id)) byId.set(c.id, c);
+  return Array.from(byId.values());
+}
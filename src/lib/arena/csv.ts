@@ -0,0 +1,86 @@
+// RFC 4180 reader for the CSV and TSV files a dataset ships with. Quoted
+// fields may span lines and escape quotes as "", a leading BOM is dropped and
+// the delimiter is detected from the first line when not given.
+
+export type Delimiter = "," | ";" | "\t";
+
+const DELIMITERS: Delimiter[] = ["\t", ";", ","];
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+// Counts candidates outside quotes on the first line; ties go to tab, then
+// semicolon, which the bundled instruction.csv uses
+export function detectDelimiter(text: string): Delimiter {
+  const counts = new Map<Delimiter, number>(DELIMITERS.map((d) => [d, 0]));
+  let quoted = false;
+  for (const ch of stripBom(text)) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === "\n" || ch === "\r")) break;
+    else if (!quoted && counts.has(ch as Delimiter)) counts.set(ch as Delimiter, counts.get(ch as Delimiter)! + 1);
+  }
+  let best: Delimiter = ",";
+  let bestCount = 0;
+  for (const d of DELIMITERS) {
+    if (counts.get(d)! > bestCount) {
+      best = d;
+      bestCount = counts.get(d)!;
+    }
+  }
+  return best;
+}
+
+// Returns every record as an array of fields; blank lines are skipped
+export function parseDelimited(text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] {
+  const src = stripBom(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  // Whether the current field started with a quote; text after the closing
+  // quote is kept as-is, like most spreadsheet exports expect
+  let wasQuoted = false;
+
+  // Unquoted fields keep their spaces, as RFC 4180 requires; callers trim
+  // the columns they use
+  const endField = () => {
+    row.push(field);
+    field = "";
+    wasQuoted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === "" && !wasQuoted) {
+      quoted = true;
+      wasQuoted = true;
+      field = "";
+    } else if (ch === delimiter) {
+      endField();
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || wasQuoted || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,34 @@
+// The implicit dataset is public/images plus public/instruction.csv; every
+// other one lives in its own public/datasets/<id>/ folder next to its
+// instruction.csv and optional gold.csv.
+export const DEFAULT_DATASET_ID = "default";
+
+// Written by the manifest plugin in vite.config.ts
+export const DATASET_INDEX_FILE = "datasets/index.json";
+
+export type DatasetInfo = {
+  id: string;
+  imageCount: number;
+};
+
+export type DatasetIndex = {
+  datasets: DatasetInfo[];
+};
+
+export function parseDatasetIndex(data: unknown): DatasetInfo[] {
+  const list = (data as Partial<DatasetIndex> | null)?.datasets;
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((d): d is DatasetInfo => !!d && typeof d === "object" && typeof (d as DatasetInfo).id === "string")
+    .map((d) => ({ id: d.id, imageCount: Number(d.imageCount) || 0 }));
+}
+
+// Path of a dataset file relative to the public folder
+export function datasetFile(datasetId: string, name: string): string {
+  return datasetId === DEFAULT_DATASET_ID ? name : `datasets/${encodeURIComponent(datasetId)}/${name}`;
+}
+
+// Folder holding the dataset's images and manifest.json
+export function datasetImagesDir(datasetId: string): string {
+  return datasetId === DEFAULT_DATASET_ID ? "images/" : datasetFile(datasetId, "");
+}
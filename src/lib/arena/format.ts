@@ -0,0 +1,9 @@
+// Number formatting shared by the results views
+
+export function pct(x: number) {
+  return `${(x * 100).toFixed(1)}%`;
+}
+
+export function seconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,109 @@
+// Instruction files map prompt ids to prompt text plus optional metadata
+// columns. Shared by the browser loader and the dataset checks in
+// vite.config.ts.
+import { detectDelimiter, parseDelimited } from "./csv";
+import { normalizeId } from "./naming";
+
+export type PromptMetadata = {
+  category?: string;
+  negativePrompt?: string;
+  language?: string;
+  difficulty?: string;
+  notes?: string;
+  // Any other columns, keyed by their header
+  extra?: Record<string, string>;
+};
+
+export type PromptRecord = PromptMetadata & {
+  id: string;
+  instruction: string;
+};
+
+// Keyed by the id as written and by its normalized form, like image ids
+export type PromptTable = Record<string, PromptRecord>;
+
+const KNOWN_COLUMNS: Record<string, keyof Omit<PromptMetadata, "extra">> = {
+  category: "category",
+  negative_prompt: "negativePrompt",
+  negative: "negativePrompt",
+  language: "language",
+  lang: "language",
+  difficulty: "difficulty",
+  notes: "notes",
+  note: "notes",
+};
+
+const INSTRUCTION_COLUMNS = ["instruction", "prompt", "text"];
+
+// Looked up next to the images, in this order; later files fill in ids the
+// earlier ones lack
+export const INSTRUCTION_FILES = ["instruction.csv", "instructions.csv", "instructions.tsv"];
+
+// Merges several parsed files; an id keeps the record of the first file that
+// has it
+export function mergePromptTables(tables: PromptTable[]): PromptTable {
+  const merged: PromptTable = {};
+  for (const table of tables) {
+    for (const [key, record] of Object.entries(table)) if (!(key in merged)) merged[key] = record;
+  }
+  return merged;
+}
+
+function columnKey(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+// Files without a header row are read as id, instruction. Rows with more
+// fields than the header come from unquoted delimiters inside the
+// instruction, so the surplus is joined back into it.
+export function parseInstructions(text: string): PromptTable {
+  const table: PromptTable = {};
+  const delimiter = detectDelimiter(text);
+  const rows = parseDelimited(text, delimiter);
+  if (rows.length === 0) return table;
+
+  const header = rows[0].map(columnKey);
+  const hasHeader = header[0] === "id";
+  const columns = hasHeader ? header : ["id", "instruction"];
+  const found = columns.findIndex((c) => INSTRUCTION_COLUMNS.includes(c));
+  const instructionCol = found > 0 ? found : 1;
+
+  for (const raw of rows.slice(hasHeader ? 1 : 0)) {
+    const fields = raw.slice();
+    const surplus = fields.length - columns.length;
+    if (surplus > 0) {
+      fields.splice(instructionCol, surplus + 1, fields.slice(instructionCol, instructionCol + surplus + 1).join(delimiter));
+    }
+    const id = fields[0]?.trim();
+    if (!id) continue;
+
+    const record: PromptRecord = { id, instruction: (fields[instructionCol] ?? "").trim() };
+    const extra: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      const value = fields[i]?.trim();
+      if (i === 0 || i === instructionCol || value === undefined || value === "") return;
+      const known = KNOWN_COLUMNS[column];
+      if (known) record[known] = value;
+      else extra[hasHeader ? rows[0][i].trim() : column] = value;
+    });
+    if (Object.keys(extra).length > 0) record.extra = extra;
+
+    table[id] = record;
+    table[normalizeId(id)] = record;
+  }
+  return table;
+}
+
+// Metadata fields that are set, in display order
+export function promptMetadataEntries(record: PromptRecord | undefined): Array<[string, string]> {
+  if (!record) return [];
+  const entries: Array<[string, string | undefined]> = [
+    ["Category", record.category],
+    ["Language", record.language],
+    ["Difficulty", record.difficulty],
+    ["Negative prompt", record.negativePrompt],
+    ["Notes", record.notes],
+    ...Object.entries(record.extra ?? {}),
+  ];
+  return entries.filter((e): e is [string, string] => !!e[1]);
+}
@@ -0,0 +1,36 @@
+// Configurable label sets (criteria, failure tags, reason chips) are entered
+// as comma-separated text and stored with a stable slug id
+
+export type LabelItem = {
+  id: string;
+  label: string;
+};
+
+export function slugify(label: string, fallback = "item"): string {
+  return (
+    label
+      .trim()
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || fallback
+  );
+}
+
+// Parses a comma-separated list of labels, dropping blanks and duplicates.
+// Distinct labels that slug to the same id get a numeric suffix.
+export function parseLabelList(text: string, fallback = "item"): LabelItem[] {
+  const labels = new Set<string>();
+  const ids = new Set<string>();
+  const out: LabelItem[] = [];
+  for (const raw of text.split(",")) {
+    const label = raw.trim();
+    if (!label || labels.has(label.toLowerCase())) continue;
+    labels.add(label.toLowerCase());
+    const base = slugify(label, fallback);
+    let id = base;
+    for (let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+    ids.add(id);
+    out.push({ id, label });
+  }
+  return out;
+}
@@ -0,0 +1,133 @@
+import { normalizeId, parseImagePath } from "./naming";
+
+// Version 1 was a bare array of file names (or `{ files: [...] }`); version 2
+// describes every image
+export const MANIFEST_VERSION = 2;
+
+// Generation details that travel with an image into the results
+export type ImageMetadata = {
+  prompt?: string;
+  seed?: number | string;
+  params?: Record<string, unknown>;
+  width?: number;
+  height?: number;
+  // Hex SHA-256 of the file contents
+  sha256?: string;
+};
+
+export type ManifestImage = ImageMetadata & {
+  // Path relative to the images folder
+  file: string;
+  model: string;
+  id: string;
+};
+
+export type DatasetManifest = {
+  version: typeof MANIFEST_VERSION;
+  images: ManifestImage[];
+  // Files in the folder that were left out because of their format
+  skipped?: string[];
+};
+
+// Optional `<image name>.json` next to an image; model and id override the
+// values derived from the file name
+export type ImageSidecar = ImageMetadata & { model?: string; id?: string };
+
+export function entryFromFileName(file: string): ManifestImage {
+  return { file, ...parseImagePath(file) };
+}
+
+// Accepts every manifest shape the plugin has written so far; only version 2
+// records skipped files
+export function parseManifest(data: unknown): { images: ManifestImage[]; skipped: string[] } {
+  if (Array.isArray(data)) {
+    return { images: data.filter((f): f is string => typeof f === "string").map(entryFromFileName), skipped: [] };
+  }
+  if (!data || typeof data !== "object") return { images: [], skipped: [] };
+  const obj = data as { version?: unknown; files?: unknown; images?: unknown; skipped?: unknown };
+  if (Array.isArray(obj.files)) return parseManifest(obj.files);
+  if (obj.version === MANIFEST_VERSION && Array.isArray(obj.images)) {
+    const images = obj.images
+      .filter((e): e is ManifestImage => !!e && typeof e === "object" && typeof (e as ManifestImage).file === "string")
+      .map((e) => {
+        const derived = entryFromFileName(e.file);
+        return { ...e, model: e.model || derived.model, id: e.id ? normalizeId(String(e.id)) : derived.id };
+      });
+    const skipped = Array.isArray(obj.skipped) ? obj.skipped.filter((f): f is string => typeof f === "string") : [];
+    return { images, skipped };
+  }
+  return { images: [], skipped: [] };
+}
+
+// Strips the identifying fields, leaving undefined when nothing is known
+export function metadataOf(entry: ManifestImage): ImageMetadata | undefined {
+  const { file: _file, model: _model, id: _id, ...meta } = entry;
+  return Object.keys(meta).length > 0 ? meta : undefined;
+}
+
+function u16be(b: Uint8Array, i: number) {
+  return (b[i] << 8) | b[i + 1];
+}
+
+function u16le(b: Uint8Array, i: number) {
+  return b[i] | (b[i + 1] << 8);
+}
+
+function u32be(b: Uint8Array, i: number) {
+  return ((b[i] << 24) | (b[i + 1] << 16) | (b[i + 2] << 8) | b[i + 3]) >>> 0;
+}
+
+function u32le(b: Uint8Array, i: number) {
+  return (b[i] | (b[i + 1] << 8) | (b[i + 2] << 16) | (b[i + 3] << 24)) >>> 0;
+}
+
+// Reads pixel dimensions from the header of a PNG, JPEG, GIF, WebP or BMP file
+export function imageDimensions(b: Uint8Array): { width: number; height: number } | null {
+  if (b.length < 26) return null;
+  // PNG: IHDR is always the first chunk
+  if (b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47) {
+    return { width: u32be(b, 16), height: u32be(b, 20) };
+  }
+  // GIF87a / GIF89a
+  if (b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46) {
+    return { width: u16le(b, 6), height: u16le(b, 8) };
+  }
+  // BMP; height is negative for top-down bitmaps
+  if (b[0] === 0x42 && b[1] === 0x4d) {
+    return { width: u32le(b, 18), height: Math.abs(u32le(b, 22) | 0) };
+  }
+  // WebP: RIFF....WEBP followed by a VP8, VP8L or VP8X chunk
+  if (u32be(b, 0) === 0x52494646 && u32be(b, 8) === 0x57454250) {
+    const chunk = String.fromCharCode(b[12], b[13], b[14], b[15]);
+    if (chunk === "VP8 " && b.length >= 30) {
+      return { width: u16le(b, 26) & 0x3fff, height: u16le(b, 28) & 0x3fff };
+    }
+    if (chunk === "VP8L" && b.length >= 25) {
+      const bits = u32le(b, 21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X" && b.length >= 30) {
+      return {
+        width: (b[24] | (b[25] << 8) | (b[26] << 16)) + 1,
+        height: (b[27] | (b[28] << 8) | (b[29] << 16)) + 1,
+      };
+    }
+    return null;
+  }
+  // JPEG: walk the segments up to the first start-of-frame marker
+  if (b[0] === 0xff && b[1] === 0xd8) {
+    let i = 2;
+    while (i + 9 < b.length) {
+      if (b[i] !== 0xff) return null;
+      const marker = b[i + 1];
+      if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+        i += 2;
+        continue;
+      }
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isFrame) return { width: u16be(b, i + 7), height: u16be(b, i + 5) };
+      i += 2 + u16be(b, i + 2);
+    }
+  }
+  return null;
+}
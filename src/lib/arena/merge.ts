@@ -0,0 +1,284 @@
+import type { ArenaVote, SourcedResult } from "./types";
+import { BOTH_BAD_AS_TIE, positionStats, winRates, type ModelWinRate, type PositionStats } from "./analysis";
+import { computeRatings, type ModelRating } from "./rating";
+import { computeRatingsByCriterion, criteriaOf, type Criterion } from "./criteria";
+import { speedStats, type SpeedStats } from "./timing";
+import { DEFAULT_MIN_PASS_RATE, attentionSummary, type AttentionSummary } from "./controls";
+import { consistencyReport, repeatOutcomes, type ConsistencyReport } from "./consistency";
+import { raterOf, type RaterProfile } from "./rater";
+import type { PromptRecord } from "./instructions";
+
+export type RaterSummary = {
+  rater: string;
+  // From the rater's most recent session that recorded one
+  profile: RaterProfile | null;
+  sessions: number;
+  votes: number;
+  winRates: ModelWinRate[];
+  // Fitted on this rater's votes alone
+  ratings: { elo: ModelRating[]; bradleyTerry: ModelRating[] };
+  speed: SpeedStats;
+  position: PositionStats;
+  // Null when none of the rater's sessions had control pairs
+  attention: AttentionSummary | null;
+  consistency: ConsistencyReport;
+};
+
+export type AggregateReport = {
+  sessions: number;
+  // Policy applied to both-bad votes in every win rate and rating below
+  bothBadAsTie: boolean;
+  votes: number;
+  models: string[];
+  raters: RaterSummary[];
+  overall: ModelWinRate[];
+  ratings: { elo: ModelRating[]; bradleyTerry: ModelRating[] };
+  criteria: Criterion[];
+  ratingsByCriterion: Record<string, { elo: ModelRating[]; bradleyTerry: ModelRating[] }>;
+};
+
+export type MergedVote = ArenaVote & {
+  rater: string;
+  session: string;
+  dataset?: string;
+  expertise?: string;
+  device?: string;
+  prompt?: PromptRecord;
+};
+
+function sessionKey(item: SourcedResult): string {
+  return `${item.result.rater?.id ?? ""}|${item.result.timestamp}`;
+}
+
+// Drops files that describe the same session (same rater and timestamp),
+// keeping the first occurrence
+export function dedupeResults(items: SourcedResult[]): { unique: SourcedResult[]; duplicates: SourcedResult[] } {
+  const seen = new Set<string>();
+  const unique: SourcedResult[] = [];
+  const duplicates: SourcedResult[] = [];
+  for (const item of items) {
+    const key = sessionKey(item);
+    if (seen.has(key)) duplicates.push(item);
+    else {
+      seen.add(key);
+      unique.push(item);
+    }
+  }
+  return { unique, duplicates };
+}
+
+// Pools a rater's control pairs over all their sessions, holding them to the
+// strictest pass rate any of those sessions was configured with
+function raterAttention(list: SourcedResult[]): AttentionSummary | null {
+  const controls = list.flatMap((i) => i.result.controls ?? []);
+  if (controls.length === 0) return null;
+  const minPassRate = Math.max(...list.map((i) => i.result.attention?.minPassRate ?? DEFAULT_MIN_PASS_RATE));
+  return attentionSummary(controls, minPassRate);
+}
+
+export function failingRaters(items: SourcedResult[]): Set<string> {
+  const byRater: Record<string, SourcedResult[]> = {};
+  for (const item of items) (byRater[raterOf(item)] ??= []).push(item);
+  return new Set(
+    Object.entries(byRater)
+      .filter(([, list]) => raterAttention(list)?.pass === false)
+      .map(([rater]) => rater)
+  );
+}
+
+export function aggregateResults(items: SourcedResult[], bothBadAsTie = BOTH_BAD_AS_TIE): AggregateReport {
+  const byRater: Record<string, SourcedResult[]> = {};
+  for (const item of items) (byRater[raterOf(item)] ??= []).push(item);
+
+  const raters = Object.entries(byRater)
+    .map(([rater, list]) => {
+      const votes = list.flatMap((i) => i.result.votes);
+      const ratings = computeRatings(votes, { bothBadAsTie });
+      const profiles = list
+        .filter((i) => i.result.rater)
+        .sort((a, b) => a.result.timestamp.localeCompare(b.result.timestamp));
+      return {
+        rater,
+        profile: profiles[profiles.length - 1]?.result.rater ?? null,
+        sessions: list.length,
+        votes: votes.length,
+        winRates: winRates({ votes }, bothBadAsTie),
+        ratings: { elo: ratings.elo.ratings, bradleyTerry: ratings.bradleyTerry.ratings },
+        speed: speedStats(votes),
+        position: positionStats(votes),
+        attention: raterAttention(list),
+        // Repeats refer to rounds, so they are matched within each session
+        consistency: consistencyReport(list.flatMap((i) => repeatOutcomes(i.result.votes))),
+      };
+    })
+    .sort((a, b) => a.rater.localeCompare(b.rater));
+
+  const allVotes = items.flatMap((i) => i.result.votes);
+  const results = items.map((i) => i.result);
+  const { elo, bradleyTerry } = computeRatings(results, { bothBadAsTie });
+  const criteria = criteriaOf(results);
+  const ratingsByCriterion: AggregateReport["ratingsByCriterion"] = {};
+  for (const [id, r] of Object.entries(computeRatingsByCriterion(results, criteria, { bothBadAsTie }))) {
+    ratingsByCriterion[id] = { elo: r.elo.ratings, bradleyTerry: r.bradleyTerry.ratings };
+  }
+  return {
+    sessions: items.length,
+    bothBadAsTie,
+    votes: allVotes.length,
+    models: Array.from(new Set(items.flatMap((i) => i.result.models))).sort(),
+    raters,
+    overall: winRates({ votes: allVotes }, bothBadAsTie),
+    ratings: { elo: elo.ratings, bradleyTerry: bradleyTerry.ratings },
+    criteria,
+    ratingsByCriterion,
+  };
+}
+
+export function mergedVotes(items: SourcedResult[]): MergedVote[] {
+  return items.flatMap((item) =>
+    item.result.votes.map((v) => ({
+      ...v,
+      rater: raterOf(item),
+      session: item.result.timestamp,
+      dataset: item.result.datasetId,
+      expertise: item.result.rater?.expertise,
+      device: item.result.rater?.device,
+      prompt: item.result.prompts?.[v.left.id],
+    }))
+  );
+}
+
+export function mergedDataset(items: SourcedResult[]) {
+  return {
+    generatedAt: new Date().toISOString(),
+    sessions: items.map((i) => ({
+      rater: raterOf(i),
+      profile: i.result.rater,
+      source: i.source,
+      timestamp: i.result.timestamp,
+      datasetId: i.result.datasetId,
+      roundsCompleted: i.result.roundsCompleted,
+      environment: i.result.environment,
+    })),
+    aggregate: aggregateResults(items),
+    votes: mergedVotes(items),
+  };
+}
+
+function csvCell(value: unknown): string {
+  const s = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCSV(rows: Array<Record<string, unknown>>, columns: string[]): string {
+  const lines = [columns.map(csvCell).join(",")];
+  for (const row of rows) lines.push(columns.map((c) => csvCell(row[c])).join(","));
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function mergedVotesCSV(items: SourcedResult[]): string {
+  const criteria = criteriaOf(items.map((i) => i.result));
+  const rows = mergedVotes(items).map((v) => ({
+    rater: v.rater,
+    expertise: v.expertise ?? "",
+    device: v.device ?? "",
+    session: v.session,
+    dataset: v.dataset ?? "",
+    round: v.round,
+    id: v.left.id,
+    category: v.prompt?.category ?? "",
+    language: v.prompt?.language ?? "",
+    difficulty: v.prompt?.difficulty ?? "",
+    left_model: v.left.model,
+    left_name: v.left.name,
+    right_model: v.right.model,
+    right_name: v.right.name,
+    choice: v.choice,
+    winner: v.winnerModel ?? "",
+    left_tags: (v.tags?.left ?? []).join("|"),
+    right_tags: (v.tags?.right ?? []).join("|"),
+    reasons: (v.reasons ?? []).join("|"),
+    comment: v.comment ?? "",
+    repeat_of: v.repeat?.ofRound ?? "",
+    response_ms: v.timing?.responseMs ?? "",
+    fast: v.timing ? Number(v.timing.fast) : "",
+    before_load: v.timing ? Number(v.timing.beforeLoad) : "",
+    zoom_opens: v.timing?.zoomOpens ?? "",
+    zoom_opened_ms: (v.timing?.zoomOpenedMs ?? []).join("|"),
+    ...Object.fromEntries(
+      criteria.flatMap((c) => [
+        [`choice_${c.id}`, v.criteria?.[c.id]?.choice ?? ""],
+        [`winner_${c.id}`, v.criteria?.[c.id]?.winnerModel ?? ""],
+      ])
+    ),
+  }));
+  return toCSV(rows, [
+    "rater",
+    "expertise",
+    "device",
+    "session",
+    "dataset",
+    "round",
+    "id",
+    "category",
+    "language",
+    "difficulty",
+    "left_model",
+    "left_name",
+    "right_model",
+    "right_name",
+    "choice",
+    "winner",
+    "left_tags",
+    "right_tags",
+    "reasons",
+    "comment",
+    "repeat_of",
+    "response_ms",
+    "fast",
+    "before_load",
+    "zoom_opens",
+    "zoom_opened_ms",
+    ...criteria.flatMap((c) => [`choice_${c.id}`, `winner_${c.id}`]),
+  ]);
+}
+
+// One row per rater and model, for comparing raters in a spreadsheet
+export function raterRatingsCSV(items: SourcedResult[]): string {
+  const rows = aggregateResults(items).raters.flatMap((r) =>
+    r.winRates.map((w) => {
+      const bt = r.ratings.bradleyTerry.find((x) => x.model === w.model);
+      const elo = r.ratings.elo.find((x) => x.model === w.model);
+      return {
+        rater: r.rater,
+        model: w.model,
+        wins: w.wins,
+        losses: w.losses,
+        ties: w.ties,
+        both_bad: w.bothBad,
+        win_rate: w.winRate,
+        bradley_terry: bt?.rating ?? "",
+        bradley_terry_lower: bt?.lower ?? "",
+        bradley_terry_upper: bt?.upper ?? "",
+        elo: elo?.rating ?? "",
+        elo_lower: elo?.lower ?? "",
+        elo_upper: elo?.upper ?? "",
+      };
+    })
+  );
+  return toCSV(rows, [
+    "rater",
+    "model",
+    "wins",
+    "losses",
+    "ties",
+    "both_bad",
+    "win_rate",
+    "bradley_terry",
+    "bradley_terry_lower",
+    "bradley_terry_upper",
+    "elo",
+    "elo_lower",
+    "elo_upper",
+  ]);
+}
@@ -0,0 +1,122 @@
+// Derives model and prompt id from image file names such as "gpt_001.png",
+// or from folder-per-model paths such as "gpt/001.png". Shared by the browser
+// loader and the manifest plugin in vite.config.ts.
+
+export function normalizeId(id: string): string {
+  if (!id) return "";
+  const trimmed = String(id).trim();
+  const cleaned = trimmed.replace(/^[\-_.\s]+/, "");
+  if (/^\d+$/.test(cleaned)) {
+    const noLeading = cleaned.replace(/^0+/, "");
+    return noLeading === "" ? "0" : noLeading;
+  }
+  return cleaned;
+}
+
+export function parseModelPrefix(filename: string): string {
+  const base = filename.replace(/\.[^/.]+$/, "");
+  const idxUnd = base.indexOf("_");
+  const idxDash = base.indexOf("-");
+  const indices = [idxUnd, idxDash].filter((i) => i >= 0).sort((a, b) => a - b);
+  if (indices.length > 0) {
+    return base.slice(0, indices[0]) || "model";
+  }
+  // No separators found; fall back to the whole base name
+  return base || "model";
+}
+
+export function parseIdSuffix(filename: string, modelPrefix?: string): string {
+  const base = filename.replace(/\.[^/.]+$/, "");
+  let rest = base;
+  if (modelPrefix && base.toLowerCase().startsWith(modelPrefix.toLowerCase())) {
+    rest = base.slice(modelPrefix.length);
+  } else {
+    const idxUnd = base.indexOf("_");
+    const idxDash = base.indexOf("-");
+    const indices = [idxUnd, idxDash].filter((i) => i >= 0).sort((a, b) => a - b);
+    const idx = indices.length ? indices[0] : -1;
+    rest = idx >= 0 ? base.slice(idx + 1) : base;
+  }
+  rest = rest.replace(/^[\-_.\s]+/, "");
+  return normalizeId(rest || base);
+}
+
+// A file inside a folder takes the folder name as its model and the rest of
+// the name as its id ("gpt/gpt_001.png" and "gpt/001.png" both give id "1").
+// Loose files fall back to the prefix rule.
+export function parseImagePath(path: string): ParsedName {
+  const parts = path.split("/").filter(Boolean);
+  const baseName = parts.pop() || path;
+  const folder = parts.pop();
+  if (!folder) {
+    const model = parseModelPrefix(baseName);
+    return { model, id: parseIdSuffix(baseName, model) };
+  }
+  const stem = baseName.replace(/\.[^/.]+$/, "");
+  const prefixed = stem.toLowerCase().startsWith(folder.toLowerCase()) && /^[-_.\s]/.test(stem.slice(folder.length));
+  return { model: folder, id: normalizeId(prefixed ? stem.slice(folder.length) : stem) || normalizeId(stem) };
+}
+
+// "auto" keeps the rule above. Templates use {model} and {id} placeholders;
+// anything containing a named group is taken as a regular expression.
+export const AUTO_NAMING = "auto";
+
+export const NAMING_PRESETS = [
+  { value: AUTO_NAMING, label: "Automatic (folder name, else model before the first _ or -)" },
+  { value: "{model}_{id}", label: "{model}_{id}" },
+  { value: "{id}__{model}", label: "{id}__{model}" },
+  { value: "{model}/{id}", label: "{model}/{id} (folder per model)" },
+];
+
+export type ParsedName = { model: string; id: string };
+
+export class NamingRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NamingRuleError";
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Templates match the file name, or the end of the path when they contain a
+// "/". The model is greedy and the id is not, so "sdxl_v2_001" read with
+// {model}_{id} gives model "sdxl_v2" and id "001".
+function templateToRegExp(template: string): RegExp {
+  if (!template.includes("{model}") || !template.includes("{id}")) {
+    throw new NamingRuleError("Template needs both {model} and {id}");
+  }
+  const body = template
+    .split(/(\{model\}|\{id\})/)
+    .map((part) => (part === "{model}" ? "(?<model>[^/]+)" : part === "{id}" ? "(?<id>[^/]+?)" : escapeRegExp(part)))
+    .join("");
+  return new RegExp(template.includes("/") ? `(?:^|/)${body}$` : `^${body}$`);
+}
+
+// Returns a parser for paths relative to the images folder; it yields null
+// for files the rule does not match
+export function compileNaming(rule: string): (path: string) => ParsedName | null {
+  const trimmed = rule.trim();
+  if (!trimmed || trimmed === AUTO_NAMING) return parseImagePath;
+  let re: RegExp;
+  if (trimmed.includes("(?<")) {
+    try {
+      re = new RegExp(trimmed);
+    } catch (err) {
+      throw new NamingRuleError(err instanceof Error ? err.message : "Invalid regular expression");
+    }
+    if (!/\(\?<model>/.test(trimmed) || !/\(\?<id>/.test(trimmed)) {
+      throw new NamingRuleError("Regular expression needs named groups (?<model>…) and (?<id>…)");
+    }
+  } else {
+    re = templateToRegExp(trimmed);
+  }
+  return (path) => {
+    const stem = path.replace(/\.[^/.]+$/, "");
+    const groups = re.exec(stem)?.groups;
+    if (!groups?.model || !groups?.id) return null;
+    return { model: groups.model, id: normalizeId(groups.id) };
+  };
+}
@@ -0,0 +1,59 @@
+// Seeded randomness for everything that decides a session's pairs, so the
+// same dataset and seed always produce the same order and sides
+
+// 32-bit FNV-1a; turns any string into a seed and fingerprints datasets
+export function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and good enough for shuffling
+export function createRandom(seed: string): () => number {
+  let state = fnv1a(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fixed collation, so the order fed into the shuffle does not follow the
+// browser's locale; numeric so "2" sorts before "10"
+const collator = new Intl.Collator("en", { numeric: true });
+
+export function compareStable(a: string, b: string): number {
+  return collator.compare(a, b) || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+// Sorts by model, id and file name, which survive a reload; upload URLs do not
+export function canonicalOrder<T extends { model: string; id: string; name: string }>(images: T[]): T[] {
+  return images
+    .slice()
+    .sort((a, b) => compareStable(a.model, b.model) || compareStable(a.id, b.id) || compareStable(a.name, b.name));
+}
+
+// Fisher-Yates over a copy
+export function shuffleWith<T>(items: T[], random: () => number): T[] {
+  const a = items.slice();
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+export function newSeed(): string {
+  const bytes = new Uint32Array(1);
+  crypto.getRandomValues(bytes);
+  return bytes[0].toString(36).padStart(7, "0");
+}
+
+export function seedFromSearch(search: string): string | null {
+  return new URLSearchParams(search).get("seed")?.trim() || null;
+}
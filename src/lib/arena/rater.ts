@@ -0,0 +1,86 @@
+import type { SourcedResult } from "./types";
+
+export type RaterProfile = {
+  id: string;
+  expertise?: string;
+  device?: string;
+};
+
+// Recorded with each result so merged analyses can reproduce the setup
+export type SessionEnvironment = {
+  appVersion: string;
+  datasetFingerprint: string;
+  viewport: { width: number; height: number };
+  userAgent: string;
+};
+
+// Results without a rater id are told apart by the file they came from
+export function raterOf(item: SourcedResult): string {
+  return item.result.rater?.id || item.source;
+}
+
+export const EXPERTISE_LEVELS = [
+  { value: "casual", label: "Casual viewer" },
+  { value: "enthusiast", label: "Enthusiast" },
+  { value: "professional", label: "Professional (design, photo, art)" },
+  { value: "researcher", label: "ML researcher" },
+];
+
+export const DISPLAY_DEVICES = [
+  { value: "laptop", label: "Laptop screen" },
+  { value: "desktop", label: "Desktop monitor" },
+  { value: "calibrated", label: "Calibrated monitor" },
+  { value: "tablet", label: "Tablet" },
+  { value: "phone", label: "Phone" },
+];
+
+const RATER_KEY = "image-arena:rater";
+
+export function loadRaterProfile(): RaterProfile {
+  try {
+    const raw = localStorage.getItem(RATER_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed.id === "string" ? parsed : { id: "" };
+  } catch {
+    return { id: "" };
+  }
+}
+
+export function saveRaterProfile(profile: RaterProfile) {
+  try {
+    localStorage.setItem(RATER_KEY, JSON.stringify(profile));
+  } catch {
+    // Only a convenience for the next visit
+  }
+}
+
+// `?rater=`, `?expertise=` and `?device=` let a study link pre-fill the profile
+export function raterFromSearch(search: string): Partial<RaterProfile> {
+  const params = new URLSearchParams(search);
+  const out: Partial<RaterProfile> = {};
+  const id = params.get("rater")?.trim();
+  if (id) out.id = id;
+  const expertise = params.get("expertise")?.trim();
+  if (expertise) out.expertise = expertise;
+  const device = params.get("device")?.trim();
+  if (device) out.device = device;
+  return out;
+}
+
+// Drops empty optional fields so results only carry what the rater entered
+export function cleanProfile(profile: RaterProfile): RaterProfile {
+  return {
+    id: profile.id.trim(),
+    ...(profile.expertise ? { expertise: profile.expertise } : {}),
+    ...(profile.device ? { device: profile.device } : {}),
+  };
+}
+
+export function captureEnvironment(datasetFingerprint: string): SessionEnvironment {
+  return {
+    appVersion: __APP_VERSION__,
+    datasetFingerprint,
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    userAgent: navigator.userAgent,
+  };
+}
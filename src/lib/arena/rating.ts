@@ -0,0 +1,241 @@
+import type { ArenaResult, ArenaVote } from "./types";
+import { BOTH_BAD_AS_TIE, scoredVotes } from "./analysis";
+import { quantile } from "./stats";
+
+// Pure rating engine over arena votes. It has no DOM or React dependencies so
+// it can be imported by the app and by Node scripts that merge result files.
+
+export type Comparison = {
+  a: string;
+  b: string;
+  // Score of model `a`: 1 win, 0 loss, 0.5 draw
+  score: number;
+};
+
+export type ModelRating = {
+  model: string;
+  rating: number;
+  lower: number;
+  upper: number;
+  games: number;
+};
+
+export type RatingReport = {
+  method: "elo" | "bradley-terry";
+  ratings: ModelRating[];
+  comparisons: number;
+  // Bootstrap replicates per model, used to derive intervals on rating gaps
+  samples: Record<string, number[]>;
+};
+
+export type RatingOptions = {
+  bootstrapRounds?: number;
+  confidence?: number;
+  eloK?: number;
+  initialRating?: number;
+  // Count "both bad" votes as draws; otherwise they are left out of the fit
+  bothBadAsTie?: boolean;
+  random?: () => number;
+};
+
+export type RatingGap = {
+  leader: string;
+  trailer: string;
+  gap: number;
+  margin: number;
+  lower: number;
+  upper: number;
+};
+
+const SCALE = 400;
+
+const DEFAULTS: Required<Omit<RatingOptions, "random">> = {
+  bootstrapRounds: 200,
+  confidence: 0.95,
+  eloK: 4,
+  initialRating: 1000,
+  bothBadAsTie: BOTH_BAD_AS_TIE,
+};
+
+export function voteToComparison(vote: ArenaVote, bothBadAsTie = BOTH_BAD_AS_TIE): Comparison | null {
+  const a = vote.left.model;
+  const b = vote.right.model;
+  if (!a || !b || a === b) return null;
+  if (vote.choice === "tie") return { a, b, score: 0.5 };
+  if (vote.choice === "bothBad") return bothBadAsTie ? { a, b, score: 0.5 } : null;
+  if (vote.winnerModel === a) return { a, b, score: 1 };
+  if (vote.winnerModel === b) return { a, b, score: 0 };
+  return null;
+}
+
+export function collectComparisons(
+  input: ArenaResult | ArenaResult[] | ArenaVote[],
+  bothBadAsTie = BOTH_BAD_AS_TIE
+): Comparison[] {
+  const list = Array.isArray(input) ? input : [input];
+  const votes: ArenaVote[] = [];
+  for (const item of list) {
+    if ("votes" in item) votes.push(...item.votes);
+    else votes.push(item);
+  }
+  const out: Comparison[] = [];
+  for (const v of scoredVotes(votes)) {
+    const c = voteToComparison(v, bothBadAsTie);
+    if (c) out.push(c);
+  }
+  return out;
+}
+
+function modelsOf(comparisons: Comparison[]): string[] {
+  const set = new Set<string>();
+  for (const c of comparisons) {
+    set.add(c.a);
+    set.add(c.b);
+  }
+  return Array.from(set).sort();
+}
+
+function eloPoint(comparisons: Comparison[], models: string[], k: number, initial: number) {
+  const r: Record<string, number> = {};
+  for (const m of models) r[m] = initial;
+  for (const c of comparisons) {
+    const expected = 1 / (1 + Math.pow(10, (r[c.b] - r[c.a]) / SCALE));
+    const delta = k * (c.score - expected);
+    r[c.a] += delta;
+    r[c.b] -= delta;
+  }
+  return r;
+}
+
+// Minorization-maximization fit (Hunter, 2004). Each model also plays one
+// virtual draw against a fixed reference so that undefeated or winless models
+// keep a finite strength.
+function bradleyTerryPoint(comparisons: Comparison[], models: string[], initial: number) {
+  const wins: Record<string, number> = {};
+  const games: Record<string, Record<string, number>> = {};
+  for (const m of models) {
+    wins[m] = 0.5;
+    games[m] = {};
+  }
+  for (const c of comparisons) {
+    wins[c.a] += c.score;
+    wins[c.b] += 1 - c.score;
+    games[c.a][c.b] = (games[c.a][c.b] ?? 0) + 1;
+    games[c.b][c.a] = (games[c.b][c.a] ?? 0) + 1;
+  }
+
+  let p: Record<string, number> = {};
+  for (const m of models) p[m] = 1;
+  for (let iter = 0; iter < 200; iter++) {
+    const next: Record<string, number> = {};
+    let change = 0;
+    for (const m of models) {
+      let denom = 1 / (p[m] + 1);
+      for (const [o, n] of Object.entries(games[m])) denom += n / (p[m] + p[o]);
+      next[m] = wins[m] / denom;
+      change = Math.max(change, Math.abs(next[m] - p[m]));
+    }
+    p = next;
+    if (change < 1e-9) break;
+  }
+
+  const logs = models.map((m) => (SCALE * Math.log(p[m])) / Math.LN10);
+  const mean = logs.reduce((s, x) => s + x, 0) / (logs.length || 1);
+  const r: Record<string, number> = {};
+  models.forEach((m, i) => (r[m] = initial + logs[i] - mean));
+  return r;
+}
+
+function buildReport(
+  method: RatingReport["method"],
+  comparisons: Comparison[],
+  fit: (cs: Comparison[], models: string[]) => Record<string, number>,
+  options: RatingOptions
+): RatingReport {
+  const { bootstrapRounds, confidence } = { ...DEFAULTS, ...options };
+  const random = options.random ?? Math.random;
+  const models = modelsOf(comparisons);
+  const point = fit(comparisons, models);
+
+  const samples: Record<string, number[]> = {};
+  for (const m of models) samples[m] = [];
+  for (let b = 0; b < bootstrapRounds && comparisons.length > 0; b++) {
+    const resampled = new Array<Comparison>(comparisons.length);
+    for (let i = 0; i < comparisons.length; i++) {
+      resampled[i] = comparisons[Math.floor(random() * comparisons.length)];
+    }
+    const r = fit(resampled, models);
+    for (const m of models) samples[m].push(r[m]);
+  }
+
+  const games: Record<string, number> = {};
+  for (const c of comparisons) {
+    games[c.a] = (games[c.a] ?? 0) + 1;
+    games[c.b] = (games[c.b] ?? 0) + 1;
+  }
+
+  const alpha = (1 - confidence) / 2;
+  const ratings = models
+    .map((model) => {
+      const sorted = samples[model].slice().sort((x, y) => x - y);
+      return {
+        model,
+        rating: point[model],
+        lower: sorted.length ? quantile(sorted, alpha) : point[model],
+        upper: sorted.length ? quantile(sorted, 1 - alpha) : point[model],
+        games: games[model] ?? 0,
+      };
+    })
+    .sort((x, y) => y.rating - x.rating);
+
+  return { method, ratings, comparisons: comparisons.length, samples };
+}
+
+export function computeElo(comparisons: Comparison[], options: RatingOptions = {}): RatingReport {
+  const { eloK, initialRating } = { ...DEFAULTS, ...options };
+  return buildReport("elo", comparisons, (cs, ms) => eloPoint(cs, ms, eloK, initialRating), options);
+}
+
+export function computeBradleyTerry(comparisons: Comparison[], options: RatingOptions = {}): RatingReport {
+  const { initialRating } = { ...DEFAULTS, ...options };
+  return buildReport("bradley-terry", comparisons, (cs, ms) => bradleyTerryPoint(cs, ms, initialRating), options);
+}
+
+export function computeRatings(
+  input: ArenaResult | ArenaResult[] | ArenaVote[],
+  options: RatingOptions = {}
+): { elo: RatingReport; bradleyTerry: RatingReport } {
+  const comparisons = collectComparisons(input, options.bothBadAsTie ?? DEFAULTS.bothBadAsTie);
+  return {
+    elo: computeElo(comparisons, options),
+    bradleyTerry: computeBradleyTerry(comparisons, options),
+  };
+}
+
+// Rating difference between two models with a bootstrap interval, ordered so
+// that `gap` is non-negative.
+export function ratingGap(report: RatingReport, a: string, b: string, confidence = DEFAULTS.confidence): RatingGap | null {
+  const ra = report.ratings.find((r) => r.model === a);
+  const rb = report.ratings.find((r) => r.model === b);
+  if (!ra || !rb) return null;
+  const [leader, trailer] = ra.rating >= rb.rating ? [ra, rb] : [rb, ra];
+  const sl = report.samples[leader.model] ?? [];
+  const st = report.samples[trailer.model] ?? [];
+  const diffs = sl.map((x, i) => x - st[i]).sort((x, y) => x - y);
+  const gap = leader.rating - trailer.rating;
+  const alpha = (1 - confidence) / 2;
+  const lower = diffs.length ? quantile(diffs, alpha) : gap;
+  const upper = diffs.length ? quantile(diffs, 1 - alpha) : gap;
+  return {
+    leader: leader.model,
+    trailer: trailer.model,
+    gap,
+    margin: (upper - lower) / 2,
+    lower,
+    upper,
+  };
+}
+
+export function formatRatingGap(gap: RatingGap): string {
+  return `${gap.leader} is ${Math.round(gap.gap)}±${Math.round(gap.margin)} points ahead of ${gap.trailer}`;
+}
@@ -0,0 +1,37 @@
+import type { ArenaVote } from "./types";
+import { parseLabelList, type LabelItem } from "./labels";
+
+export type ReasonChip = LabelItem;
+
+export const DEFAULT_REASONS: ReasonChip[] = [
+  { id: "better-composition", label: "Better composition" },
+  { id: "closer-to-prompt", label: "Closer to prompt" },
+  { id: "more-realistic", label: "More realistic" },
+  { id: "better-lighting", label: "Better lighting" },
+  { id: "fewer-artifacts", label: "Fewer artifacts" },
+];
+
+export function parseReasons(text: string): ReasonChip[] {
+  return parseLabelList(text, "reason");
+}
+
+export function hasRationale(vote: ArenaVote): boolean {
+  return !!vote.comment?.trim() || (vote.reasons?.length ?? 0) > 0;
+}
+
+// Votes with a comment or reason chips, optionally limited to those involving
+// `model` and to comments or reason labels containing `query`
+export function searchRationales(
+  votes: ArenaVote[],
+  { query = "", model = "", reasons = [] }: { query?: string; model?: string; reasons?: ReasonChip[] } = {}
+): ArenaVote[] {
+  const q = query.trim().toLowerCase();
+  const labelOf = (id: string) => reasons.find((r) => r.id === id)?.label ?? id;
+  return votes.filter((v) => {
+    if (!hasRationale(v)) return false;
+    if (model && v.left.model !== model && v.right.model !== model) return false;
+    if (!q) return true;
+    const haystack = [v.comment ?? "", ...(v.reasons ?? []).map(labelOf)].join(" ").toLowerCase();
+    return haystack.includes(q);
+  });
+}
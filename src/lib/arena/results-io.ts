@@ -0,0 +1,93 @@
+import type { ArenaResult, SourcedResult } from "./types";
+
+const LAST_RESULT_KEY = "image-arena:last-result";
+
+export class ResultFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResultFileError";
+  }
+}
+
+// Accepts the downloaded JSON (which carries extra fields such as `winner`)
+// and checks only what the analysis relies on
+export function parseResultFile(text: string): ArenaResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ResultFileError("Not valid JSON");
+  }
+  const r = data as Partial<ArenaResult> | null;
+  if (!r || typeof r !== "object") throw new ResultFileError("Expected a JSON object");
+  if (typeof r.timestamp !== "string") throw new ResultFileError("Missing timestamp");
+  if (!Array.isArray(r.votes)) throw new ResultFileError("Missing votes array");
+  for (const v of r.votes) {
+    if (
+      !v?.left?.model ||
+      !v?.right?.model ||
+      typeof v.left.id !== "string" ||
+      typeof v.right.id !== "string" ||
+      typeof v.choice !== "string"
+    ) {
+      throw new ResultFileError("Malformed vote entry");
+    }
+  }
+  const models = Array.isArray(r.models)
+    ? r.models
+    : Array.from(new Set(r.votes.flatMap((v) => [v.left.model, v.right.model]))).sort();
+  return {
+    ...(r as ArenaResult),
+    models,
+    winsByModel: r.winsByModel ?? {},
+    appearancesByModel: r.appearancesByModel ?? {},
+    ties: r.ties ?? 0,
+    bothBad: r.bothBad ?? 0,
+  };
+}
+
+export async function readResultFiles(files: FileList | File[]): Promise<{ results: SourcedResult[]; errors: string[] }> {
+  const results: SourcedResult[] = [];
+  const errors: string[] = [];
+  for (const file of Array.from(files)) {
+    try {
+      results.push({ result: parseResultFile(await file.text()), source: file.name });
+    } catch (err) {
+      errors.push(`${file.name}: ${err instanceof Error ? err.message : "unreadable"}`);
+    }
+  }
+  return { results, errors };
+}
+
+export function saveLastResult(result: ArenaResult) {
+  try {
+    localStorage.setItem(LAST_RESULT_KEY, JSON.stringify(result));
+  } catch {
+    // Large sessions can exceed the storage quota; the download still has it
+  }
+}
+
+export function loadLastResult(): ArenaResult | null {
+  try {
+    const raw = localStorage.getItem(LAST_RESULT_KEY);
+    return raw ? parseResultFile(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function downloadText(filename: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadJSON(filename: string, data: unknown) {
+  downloadText(filename, JSON.stringify(data, null, 2), "application/json");
+}
@@ -0,0 +1,115 @@
+import type { ArenaVote } from "./types";
+import { scoredVotes } from "./analysis";
+
+export type SamplingStrategy = "random" | "stratified" | "leastVoted";
+
+export const SAMPLING_STRATEGIES: Array<{ value: SamplingStrategy; label: string }> = [
+  { value: "random", label: "Random" },
+  { value: "stratified", label: "Stratified by prompt category" },
+  { value: "leastVoted", label: "Least-voted first" },
+];
+
+type SampleOptions<T> = {
+  // Identifies a matchup across sessions (see pairKey)
+  keyOf: (item: T) => string;
+  categoryOf: (item: T) => string;
+  voteCounts: Record<string, number>;
+  shuffle: <U>(items: U[]) => U[];
+};
+
+const VOTE_COUNTS_KEY = "image-arena:vote-counts";
+
+// Stable key for a matchup regardless of which side each model was shown on
+// Every model combination compared on each id both models share. Expects
+// images in canonicalOrder; when a model has the same id twice the last file wins.
+export function matchupPairs<T extends { model: string; id: string }>(images: T[]): Array<{ left: T; right: T }> {
+  const byModel = new Map<string, Map<string, T>>();
+  for (const img of images) {
+    if (!byModel.has(img.model)) byModel.set(img.model, new Map());
+    byModel.get(img.model)!.set(img.id, img);
+  }
+  const models = Array.from(byModel.keys());
+  const pairs: Array<{ left: T; right: T }> = [];
+  for (let i = 0; i < models.length; i++) {
+    for (let j = i + 1; j < models.length; j++) {
+      const map1 = byModel.get(models[i])!;
+      const map2 = byModel.get(models[j])!;
+      for (const [id, img] of map1) {
+        // Sides are assigned after sampling, see counterbalance
+        const other = map2.get(id);
+        if (other) pairs.push({ left: img, right: other });
+      }
+    }
+  }
+  return pairs;
+}
+
+export function pairKey(id: string, modelA: string, modelB: string): string {
+  const [a, b] = [modelA, modelB].sort();
+  return `${id}|${a}|${b}`;
+}
+
+export function samplePairs<T>(
+  candidates: T[],
+  count: number,
+  strategy: SamplingStrategy,
+  { keyOf, categoryOf, voteCounts, shuffle }: SampleOptions<T>
+): T[] {
+  const n = Math.max(0, Math.min(count, candidates.length));
+  const shuffled = shuffle(candidates);
+
+  if (strategy === "leastVoted") {
+    // Shuffle first so the stable sort breaks equal counts randomly
+    const ordered = shuffled
+      .map((item, idx) => ({ item, idx, votes: voteCounts[keyOf(item)] ?? 0 }))
+      .sort((a, b) => a.votes - b.votes || a.idx - b.idx);
+    return shuffle(ordered.slice(0, n).map((o) => o.item));
+  }
+
+  if (strategy === "stratified") {
+    // Round-robin over categories so small categories are represented even
+    // when the session is much shorter than the dataset
+    const buckets: Record<string, T[]> = {};
+    for (const item of shuffled) {
+      const cat = categoryOf(item) || "";
+      if (!buckets[cat]) buckets[cat] = [];
+      buckets[cat].push(item);
+    }
+    const queues = shuffle(Object.values(buckets));
+    const picked: T[] = [];
+    while (picked.length < n) {
+      for (const q of queues) {
+        const next = q.shift();
+        if (next !== undefined && picked.length < n) picked.push(next);
+      }
+    }
+    return shuffle(picked);
+  }
+
+  return shuffled.slice(0, n);
+}
+
+export function loadVoteCounts(): Record<string, number> {
+  try {
+    const raw = localStorage.getItem(VOTE_COUNTS_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Adds a finished session's votes to the per-matchup counts used by the
+// least-voted strategy
+export function recordVoteCounts(votes: ArenaVote[]) {
+  const counts = loadVoteCounts();
+  for (const v of scoredVotes(votes)) {
+    const key = pairKey(v.left.id, v.left.model, v.right.model);
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  try {
+    localStorage.setItem(VOTE_COUNTS_KEY, JSON.stringify(counts));
+  } catch {
+    // Storage may be full or disabled; sampling then falls back to random order
+  }
+}
@@ -0,0 +1,121 @@
+import type { ArenaVote } from "./types";
+import type { SamplingStrategy } from "./sampling";
+import type { CriteriaLayout, Criterion } from "./criteria";
+import type { FailureTag } from "./tags";
+import type { ReasonChip } from "./reasons";
+import type { ControlCheck } from "./controls";
+import type { RaterProfile, SessionEnvironment } from "./rater";
+import type { ImageMetadata } from "./manifest";
+import { fnv1a } from "./random";
+
+export type StoredImage = {
+  url: string;
+  model: string;
+  name: string;
+  id: string;
+  source: "upload" | "public";
+  meta?: ImageMetadata;
+};
+
+export type StoredSession = {
+  version: 1;
+  fingerprint: string;
+  startedAt: string;
+  savedAt: string;
+  pairs: Array<{ left: StoredImage; right: StoredImage; control?: ControlCheck; repeat?: { ofRound: number } }>;
+  current: number;
+  votes: ArenaVote[];
+  sampling: SamplingStrategy;
+  // Empty when the session votes on a single overall choice
+  criteria?: Criterion[];
+  criteriaLayout?: CriteriaLayout;
+  tags?: FailureTag[];
+  reasons?: ReasonChip[];
+  fastVoteThresholdMs?: number;
+  minPassRate?: number;
+  repeatFraction?: number;
+  rater?: RaterProfile;
+  environment?: SessionEnvironment;
+  seed?: string;
+};
+
+const DB_NAME = "image-arena";
+const STORE = "sessions";
+const CURRENT_KEY = "current";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Identifies the loaded image set independent of load order, so a saved
+// session is only offered when it still refers to the same files
+export function datasetFingerprint(images: Array<{ model: string; id: string; name: string }>): string {
+  const keys = images.map((i) => `${i.model}\u0000${i.id}\u0000${i.name}`).sort();
+  const hash = fnv1a(keys.map((key) => `${key}\n`).join(""));
+  return `${keys.length}-${hash.toString(16).padStart(8, "0")}`;
+}
+
+export function toStoredImage<T extends StoredImage>(img: T): StoredImage {
+  return {
+    url: img.url,
+    model: img.model,
+    name: img.name,
+    id: img.id,
+    source: img.source,
+    ...(img.meta ? { meta: img.meta } : {}),
+  };
+}
+
+// Stored URLs of uploaded images are blob: URLs that die with the page, so
+// a resumed session points at the images loaded now. Returns null unless
+// every stored image is loaded again.
+export function relinkPairs<T extends StoredImage>(
+  pairs: StoredSession["pairs"],
+  images: T[]
+): Array<Omit<StoredSession["pairs"][number], "left" | "right"> & { left: T; right: T }> | null {
+  const key = (img: { model: string; id: string; name: string }) => `${img.model}\u0000${img.id}\u0000${img.name}`;
+  const live = new Map(images.map((img) => [key(img), img]));
+  const out = [];
+  for (const pair of pairs) {
+    const left = live.get(key(pair.left));
+    const right = live.get(key(pair.right));
+    if (!left || !right) return null;
+    out.push({ ...pair, left, right });
+  }
+  return out;
+}
+
+export async function saveSession(session: StoredSession): Promise<void> {
+  await withStore("readwrite", (store) => store.put(session, CURRENT_KEY));
+}
+
+export async function loadSession(): Promise<StoredSession | null> {
+  const session = await withStore<StoredSession | undefined>("readonly", (store) => store.get(CURRENT_KEY));
+  return session && session.version === 1 ? session : null;
+}
+
+export async function clearSession(): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(CURRENT_KEY));
+}
@@ -0,0 +1,77 @@
+import type { ArenaVote } from "./types";
+import { scoredVotes, winRates } from "./analysis";
+import { binomialTwoSidedP, wilsonInterval } from "./stats";
+
+export const DEFAULT_SIGNIFICANCE_LEVEL = 0.05;
+
+export type SessionVerdict = {
+  // Leading model when significant, otherwise "tie" or "inconclusive"
+  winner: string;
+  leader: string | null;
+  runnerUp: string | null;
+  // Head-to-head votes between leader and runner-up, ties and both-bad excluded
+  leaderWins: number;
+  runnerUpWins: number;
+  pValue: number;
+  // Leader's head-to-head win rate with a Wilson interval
+  winRate: number;
+  lower: number;
+  upper: number;
+  alpha: number;
+};
+
+// Sign test between the two best-ranked models. With more than two models
+// only their direct matchups count, so the verdict is about that pair.
+export function sessionVerdict(votes: ArenaVote[], alpha = DEFAULT_SIGNIFICANCE_LEVEL): SessionVerdict {
+  const [first, second] = winRates({ votes });
+  let leader = first?.model ?? null;
+  let runnerUp = second?.model ?? null;
+
+  let leaderWins = 0;
+  let runnerUpWins = 0;
+  for (const v of scoredVotes(votes)) {
+    if (!leader || !runnerUp) break;
+    const models = [v.left.model, v.right.model];
+    if (!models.includes(leader) || !models.includes(runnerUp)) continue;
+    if (v.winnerModel === leader) leaderWins++;
+    else if (v.winnerModel === runnerUp) runnerUpWins++;
+  }
+  // The overall ranking can disagree with the direct matchup; report the
+  // matchup's leader
+  if (runnerUpWins > leaderWins) {
+    [leader, runnerUp] = [runnerUp, leader];
+    [leaderWins, runnerUpWins] = [runnerUpWins, leaderWins];
+  }
+  const n = leaderWins + runnerUpWins;
+  const pValue = binomialTwoSidedP(leaderWins, n);
+  const { lower, upper } = wilsonInterval(leaderWins, n);
+
+  let winner = "inconclusive";
+  if (n > 0 && leaderWins === runnerUpWins) winner = "tie";
+  else if (leader && pValue < alpha) winner = leader;
+
+  return {
+    winner,
+    leader,
+    runnerUp,
+    leaderWins,
+    runnerUpWins,
+    pValue,
+    winRate: n ? leaderWins / n : 0,
+    lower,
+    upper,
+    alpha,
+  };
+}
+
+export function describeVerdict(v: SessionVerdict): string {
+  const score = `${v.leaderWins}–${v.runnerUpWins}`;
+  const p = v.pValue < 0.001 ? "p < 0.001" : `p = ${v.pValue.toFixed(3)}`;
+  if (v.winner === "tie") return `Result: tie (${score})`;
+  if (v.winner === "inconclusive") {
+    return v.leader && v.runnerUp
+      ? `Inconclusive: ${v.leader} leads ${v.runnerUp} ${score} (${p})`
+      : "Inconclusive: not enough votes";
+  }
+  return `Winner: ${v.winner} over ${v.runnerUp} ${score} (${p})`;
+}
@@ -0,0 +1,44 @@
+// Small statistics helpers shared by the analysis modules
+
+// Wilson score interval for a binomial proportion
+export function wilsonInterval(successes: number, trials: number, z = 1.96): { lower: number; upper: number } {
+  if (trials <= 0) return { lower: 0, upper: 1 };
+  const p = successes / trials;
+  const z2 = z * z;
+  const denom = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denom;
+  const half = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denom;
+  return { lower: Math.max(0, center - half), upper: Math.min(1, center + half) };
+}
+
+// Linearly interpolated quantile of an ascending array; NaN when empty
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function logFactorial(n: number): number {
+  let s = 0;
+  for (let i = 2; i <= n; i++) s += Math.log(i);
+  return s;
+}
+
+// Exact two-sided binomial (sign) test against p = 0.5
+export function binomialTwoSidedP(successes: number, trials: number): number {
+  if (trials <= 0) return 1;
+  const k = Math.max(successes, trials - successes);
+  const lnN = logFactorial(trials);
+  const lnHalf = trials * Math.log(0.5);
+  let lnFact = logFactorial(k);
+  let lnFactRest = logFactorial(trials - k);
+  let tail = 0;
+  for (let i = k; i <= trials; i++) {
+    tail += Math.exp(lnN - lnFact - lnFactRest + lnHalf);
+    lnFact += Math.log(i + 1);
+    lnFactRest -= Math.log(Math.max(1, trials - i));
+  }
+  return Math.min(1, 2 * tail);
+}
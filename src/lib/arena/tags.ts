@@ -0,0 +1,48 @@
+import type { ArenaVote } from "./types";
+import { parseLabelList, type LabelItem } from "./labels";
+
+export type FailureTag = LabelItem;
+
+export type FailureRateRow = {
+  model: string;
+  appearances: number;
+  // Images of this model with at least one tag
+  flagged: number;
+  counts: Record<string, number>;
+};
+
+// Number keys 1-9 toggle tags, so only the first nine get a shortcut
+export const MAX_TAG_SHORTCUTS = 9;
+
+export const DEFAULT_FAILURE_TAGS: FailureTag[] = [
+  { id: "bad-hands", label: "Bad hands" },
+  { id: "garbled-text", label: "Garbled text" },
+  { id: "wrong-subject-count", label: "Wrong subject count" },
+  { id: "artifacts", label: "Artifacts" },
+  { id: "off-brand-colors", label: "Off-brand colors" },
+  { id: "nsfw", label: "NSFW" },
+];
+
+export function parseTags(text: string): FailureTag[] {
+  return parseLabelList(text, "tag");
+}
+
+export function toggleTag(list: string[], id: string): string[] {
+  return list.includes(id) ? list.filter((t) => t !== id) : [...list, id];
+}
+
+export function failureRates(votes: ArenaVote[]): FailureRateRow[] {
+  const rows: Record<string, FailureRateRow> = {};
+  const add = (model: string, tags: string[] | undefined) => {
+    const row = (rows[model] ??= { model, appearances: 0, flagged: 0, counts: {} });
+    row.appearances++;
+    if (!tags || tags.length === 0) return;
+    row.flagged++;
+    for (const t of tags) row.counts[t] = (row.counts[t] ?? 0) + 1;
+  };
+  for (const v of votes) {
+    add(v.left.model, v.tags?.left);
+    add(v.right.model, v.tags?.right);
+  }
+  return Object.values(rows).sort((a, b) => a.model.localeCompare(b.model));
+}
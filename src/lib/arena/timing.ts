@@ -0,0 +1,107 @@
+import type { ArenaVote } from "./types";
+import { quantile } from "./stats";
+
+export const DEFAULT_FAST_VOTE_MS = 1500;
+
+export type VoteTiming = {
+  shownAt: string;
+  votedAt: string;
+  responseMs: number;
+  // Milliseconds after the pair was shown; absent if the image never loaded
+  loadedMs: { left?: number; right?: number };
+  zoomOpens: number;
+  // When each zoom dialog was opened, in milliseconds after the pair was shown
+  zoomOpenedMs?: number[];
+  // Faster than the session's threshold
+  fast: boolean;
+  // Cast before both images had finished loading
+  beforeLoad: boolean;
+};
+
+// Live state for the pair on screen; clock values come from performance.now()
+export type PairTiming = {
+  urls: { left: string; right: string };
+  shownAt: number;
+  shownAtIso: string;
+  loadedMs: { left?: number; right?: number };
+  zoomOpenedMs: number[];
+};
+
+export type SpeedStats = {
+  count: number;
+  medianMs: number;
+  p10Ms: number;
+  p90Ms: number;
+  fastShare: number;
+  beforeLoadShare: number;
+};
+
+export type SpeedBin = {
+  label: string;
+  fromMs: number;
+  count: number;
+};
+
+export function startPairTiming(urls: { left: string; right: string }): PairTiming {
+  return { urls, shownAt: performance.now(), shownAtIso: new Date().toISOString(), loadedMs: {}, zoomOpenedMs: [] };
+}
+
+export function markZoomOpened(timing: PairTiming) {
+  timing.zoomOpenedMs.push(Math.round(performance.now() - timing.shownAt));
+}
+
+export function markImageLoaded(timing: PairTiming, side: "left" | "right", url: string) {
+  // A late load event from the previous pair's image is ignored
+  if (timing.urls[side] !== url || timing.loadedMs[side] !== undefined) return;
+  timing.loadedMs[side] = Math.round(performance.now() - timing.shownAt);
+}
+
+// An <img> whose src stays the same from one pair to the next fires no new
+// load event, so an image already decoded when the pair appears counts as
+// loaded at 0 ms
+export function markLoadedIfComplete(timing: PairTiming, side: "left" | "right", el: HTMLImageElement | null) {
+  if (!el || !el.complete || el.naturalWidth === 0 || el.getAttribute("src") !== timing.urls[side]) return;
+  timing.loadedMs[side] ??= 0;
+}
+
+export function voteTiming(timing: PairTiming, fastThresholdMs: number): VoteTiming {
+  const responseMs = Math.round(performance.now() - timing.shownAt);
+  return {
+    shownAt: timing.shownAtIso,
+    votedAt: new Date().toISOString(),
+    responseMs,
+    loadedMs: { ...timing.loadedMs },
+    zoomOpens: timing.zoomOpenedMs.length,
+    zoomOpenedMs: timing.zoomOpenedMs.slice(),
+    fast: responseMs < fastThresholdMs,
+    beforeLoad: timing.loadedMs.left === undefined || timing.loadedMs.right === undefined,
+  };
+}
+
+export function speedStats(votes: ArenaVote[]): SpeedStats {
+  const timed = votes.filter((v) => v.timing);
+  const times = timed.map((v) => v.timing!.responseMs).sort((a, b) => a - b);
+  const n = timed.length;
+  return {
+    count: n,
+    medianMs: n ? quantile(times, 0.5) : 0,
+    p10Ms: n ? quantile(times, 0.1) : 0,
+    p90Ms: n ? quantile(times, 0.9) : 0,
+    fastShare: n ? timed.filter((v) => v.timing!.fast).length / n : 0,
+    beforeLoadShare: n ? timed.filter((v) => v.timing!.beforeLoad).length / n : 0,
+  };
+}
+
+// Response-time histogram; the last bin collects everything slower
+export function speedHistogram(votes: ArenaVote[], binMs = 1000, bins = 10): SpeedBin[] {
+  const out: SpeedBin[] = Array.from({ length: bins }, (_, i) => ({
+    label: i === bins - 1 ? `${(i * binMs) / 1000}s+` : `${(i * binMs) / 1000}–${((i + 1) * binMs) / 1000}s`,
+    fromMs: i * binMs,
+    count: 0,
+  }));
+  for (const v of votes) {
+    if (!v.timing) continue;
+    out[Math.min(bins - 1, Math.floor(v.timing.responseMs / binMs))].count++;
+  }
+  return out;
+}
@@ -0,0 +1,92 @@
+import type { SamplingStrategy } from "./sampling";
+import type { SessionVerdict } from "./significance";
+import type { Criterion, CriterionVote } from "./criteria";
+import type { FailureTag } from "./tags";
+import type { ReasonChip } from "./reasons";
+import type { VoteTiming } from "./timing";
+import type { AttentionSummary, ControlCheck } from "./controls";
+import type { RaterProfile, SessionEnvironment } from "./rater";
+import type { ImageMetadata } from "./manifest";
+import type { PromptRecord } from "./instructions";
+
+export type VoteChoice = "left" | "right" | "tie" | "bothBad";
+
+// A choice that was later replaced, either by undoing the vote or by
+// changing it from the review list
+export type VoteRevision = {
+  choice: VoteChoice;
+  winnerModel?: string | null;
+  changedAt: string;
+  via: "undo" | "review";
+};
+
+export type ArenaVote = {
+  round: number;
+  left: { name: string; model: string; id: string };
+  right: { name: string; model: string; id: string };
+  choice: VoteChoice;
+  // Null for ties and both-bad votes
+  winnerModel?: string | null;
+  // Earlier choices for this round, oldest first
+  revisions?: VoteRevision[];
+  // Per-criterion choices when criteria are enabled; `choice` then mirrors
+  // the first criterion
+  criteria?: Record<string, CriterionVote>;
+  // Failure tag ids flagged on each image
+  tags?: { left: string[]; right: string[] };
+  // Reason chip ids and free-text rationale for the choice
+  reasons?: string[];
+  comment?: string;
+  timing?: VoteTiming;
+  // Set on attention-check and gold pairs, which are kept out of `votes`
+  control?: ControlCheck;
+  // Set when this round re-showed an earlier pair with sides swapped
+  repeat?: { ofRound: number };
+};
+
+export type ArenaResult = {
+  timestamp: string;
+  // Who voted; absent in files exported before raters were recorded
+  rater?: RaterProfile;
+  models: string[];
+  roundsPlanned: number;
+  // Replays the same pair order and sides on the same dataset
+  seed?: string;
+  // Public dataset the images came from; "default" is public/images
+  datasetId?: string;
+  // File naming rule used to read model and id, when not automatic
+  naming?: string;
+  environment?: SessionEnvironment;
+  // How the session's pairs were drawn from the available matchups
+  sampling?: SamplingStrategy;
+  roundsCompleted: number;
+  winsByModel: Record<string, number>;
+  // How many pairs each model took part in; with more than two models this
+  // differs per model, so rankings use win rate rather than raw win counts.
+  appearancesByModel: Record<string, number>;
+  ties: number;
+  bothBad: number;
+  verdict?: SessionVerdict;
+  criteria?: Criterion[];
+  tags?: FailureTag[];
+  reasons?: ReasonChip[];
+  // Votes faster than this are flagged in `timing.fast`
+  fastVoteThresholdMs?: number;
+  // Votes on control pairs; `attention` summarises how many were passed
+  controls?: ArenaVote[];
+  attention?: AttentionSummary;
+  // Manifest metadata of the images shown, keyed by image name
+  imageMeta?: Record<string, ImageMetadata>;
+  // Instruction and prompt metadata of the ids shown, keyed by id
+  prompts?: Record<string, PromptRecord>;
+  // Share of pairs re-shown later with sides swapped
+  repeatFraction?: number;
+  votes: ArenaVote[];
+};
+
+// A result together with where it came from (usually the file name), which
+// stands in for the rater when the file does not name one
+export type SourcedResult = {
+  result: ArenaResult;
+  source: string;
+};
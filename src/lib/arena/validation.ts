@@ -0,0 +1,97 @@
+// Pre-flight checks on a dataset, run in the config phase and optionally by
+// the manifest plugin in vite.config.ts so a broken dataset fails the build.
+import { normalizeId } from "./naming";
+
+export type ValidationImage = { model: string; id: string; name: string };
+
+export type ValidationReport = {
+  imageCount: number;
+  models: string[];
+  // Images whose id no other model has, so they can never be paired
+  orphans: Record<string, string[]>;
+  // Several files claiming the same model and id; only one of them is used
+  duplicates: Array<{ model: string; id: string; files: string[] }>;
+  // Ids with images but no instruction, and instructions without images.
+  // Both stay empty when no instructions are loaded.
+  missingInstructions: string[];
+  extraInstructions: string[];
+  unreadable: Array<{ file: string; reason: string }>;
+  // Files left out because of their format or the naming rule
+  skipped: string[];
+};
+
+const byNumericId = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+export function validateDataset(
+  images: ValidationImage[],
+  options: {
+    instructionIds?: string[];
+    unreadable?: Array<{ file: string; reason: string }>;
+    skipped?: string[];
+  } = {}
+): ValidationReport {
+  const byModel = new Map<string, Map<string, string[]>>();
+  for (const img of images) {
+    const ids = byModel.get(img.model) ?? new Map<string, string[]>();
+    const key = normalizeId(img.id);
+    ids.set(key, [...(ids.get(key) ?? []), img.name]);
+    byModel.set(img.model, ids);
+  }
+  const models = Array.from(byModel.keys()).sort();
+
+  const orphans: Record<string, string[]> = {};
+  const duplicates: ValidationReport["duplicates"] = [];
+  for (const model of models) {
+    const ids = byModel.get(model)!;
+    for (const [id, files] of ids) {
+      if (files.length > 1) duplicates.push({ model, id, files: files.slice().sort() });
+      const paired = models.some((other) => other !== model && byModel.get(other)!.has(id));
+      if (!paired) orphans[model] = [...(orphans[model] ?? []), ...files];
+    }
+    if (orphans[model]) orphans[model].sort(byNumericId);
+  }
+
+  const imageIds = new Set(images.map((i) => normalizeId(i.id)));
+  const instructionIds = new Set((options.instructionIds ?? []).map(normalizeId));
+  const hasInstructions = instructionIds.size > 0;
+
+  return {
+    imageCount: images.length,
+    models,
+    orphans,
+    duplicates,
+    missingInstructions: hasInstructions ? Array.from(imageIds).filter((id) => !instructionIds.has(id)).sort(byNumericId) : [],
+    extraInstructions: hasInstructions ? Array.from(instructionIds).filter((id) => !imageIds.has(id)).sort(byNumericId) : [],
+    unreadable: options.unreadable ?? [],
+    skipped: options.skipped ?? [],
+  };
+}
+
+export function issueCount(report: ValidationReport): number {
+  return (
+    Object.values(report.orphans).reduce((n, files) => n + files.length, 0) +
+    report.duplicates.length +
+    report.missingInstructions.length +
+    report.extraInstructions.length +
+    report.unreadable.length +
+    report.skipped.length
+  );
+}
+
+// Plain-text summary for the build log
+export function formatReport(report: ValidationReport): string {
+  const lines: string[] = [];
+  for (const [model, files] of Object.entries(report.orphans)) {
+    lines.push(`${files.length} orphan image(s) for ${model}: ${files.join(", ")}`);
+  }
+  for (const d of report.duplicates) lines.push(`Duplicate ${d.model} / ${d.id}: ${d.files.join(", ")}`);
+  if (report.missingInstructions.length > 0) {
+    lines.push(`Ids without instructions: ${report.missingInstructions.join(", ")}`);
+  }
+  if (report.extraInstructions.length > 0) {
+    lines.push(`Instructions without images: ${report.extraInstructions.join(", ")}`);
+  }
+  for (const u of report.unreadable) lines.push(`Unreadable ${u.file}: ${u.reason}`);
+  if (report.skipped.length > 0) lines.push(`Skipped files: ${report.skipped.join(", ")}`);
+  return lines.join("\n");
+}
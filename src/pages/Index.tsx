@@ -1,12 +1,14 @@
 import ImageArena from "@/components/arena/ImageArena";
 import { Helmet } from "react-helmet-async";
+import { useParams } from "react-router-dom";
 
 const Index = () => {
+  const { datasetId } = useParams();
   return (
     <main className="min-h-screen bg-gradient-to-br from-background to-muted/40 py-14">
       <Helmet>
         <title>Image Model Arena — Blind Image Comparison</title>
-        <meta name="description" content="Blind pairwise image comparison arena. Upload images from two models and export results as JSON." />
+        <meta name="description" content="Blind pairwise image comparison arena. Upload images from two or more models and export results as JSON." />
         <link rel="canonical" href="/" />
       </Helmet>
 
@@ -15,7 +17,7 @@ const Index = () => {
       </section>
 
       <section className="container">
-        <ImageArena />
+        <ImageArena datasetId={datasetId} />
       </section>
     </main>
   );
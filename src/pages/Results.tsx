@@ -0,0 +1,169 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Helmet } from "react-helmet-async";
+import { toast } from "sonner";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ResultsDashboard from "@/components/arena/ResultsDashboard";
+import AggregateReport from "@/components/arena/AggregateReport";
+import type { SourcedResult } from "@/lib/arena/types";
+import { loadLastResult, readResultFiles } from "@/lib/arena/results-io";
+import { dedupeResults, failingRaters } from "@/lib/arena/merge";
+import { raterOf } from "@/lib/arena/rater";
+import { criteriaOf, resultForCriterion } from "@/lib/arena/criteria";
+
+const Results = () => {
+  const [results, setResults] = useState<SourcedResult[]>(() => {
+    const last = loadLastResult();
+    return last ? [{ result: last, source: "this browser" }] : [];
+  });
+  const [selected, setSelected] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const [criterion, setCriterion] = useState("overall");
+  const criteria = useMemo(() => criteriaOf(results.map((r) => r.result)), [results]);
+  // Every view below reads plain votes; a criterion swaps in its choices
+  const view = useMemo(
+    () =>
+      criterion === "overall"
+        ? results
+        : results.map((r) => ({ ...r, result: resultForCriterion(r.result, criterion) })),
+    [results, criterion]
+  );
+  const [excludeFailing, setExcludeFailing] = useState(false);
+  const failing = useMemo(() => failingRaters(results), [results]);
+  const aggregateItems = useMemo(
+    () => (excludeFailing ? view.filter((r) => !failing.has(raterOf(r))) : view),
+    [view, failing, excludeFailing]
+  );
+
+  async function addFiles(files: FileList | null) {
+    if (!files || files.length === 0) return;
+    const { results: loaded, errors } = await readResultFiles(files);
+    for (const e of errors) toast.error(e);
+    if (loaded.length === 0) return;
+    const { unique, duplicates } = dedupeResults([...results, ...loaded]);
+    for (const d of duplicates) toast.warning(`${d.source}: same rater and timestamp as an earlier file, skipped`);
+    const added = unique.length - results.length;
+    if (added === 0) return;
+    setSelected(results.length);
+    setResults(unique);
+    toast.success(`Loaded ${added} result file${added === 1 ? "" : "s"}.`);
+  }
+
+  const result = view[selected]?.result;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-background to-muted/40 py-14">
+      <Helmet>
+        <title>Results — Image Model Arena</title>
+        <meta name="description" content="Win rates, ratings and position statistics for image arena sessions." />
+      </Helmet>
+
+      <section className="container mb-10 text-center">
+        <h1 className="text-4xl font-bold mb-3">Arena Results</h1>
+        <Link to="/" className="text-sm text-muted-foreground underline">
+          Back to the arena
+        </Link>
+      </section>
+
+      <section className="container mx-auto max-w-5xl space-y-6">
+        <div
+          className={`rounded-md border-2 border-dashed p-6 text-center transition-colors ${dragging ? "border-primary bg-primary/5" : "border-muted-foreground/30"}`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+        >
+          <p className="mb-3 text-sm text-muted-foreground">Drop result JSON files here to inspect them, or several to merge raters.</p>
+          <Button variant="outline" asChild>
+            <label className="cursor-pointer">
+              <Upload className="h-4 w-4" aria-hidden="true" />
+              <span>Choose files</span>
+              <input
+                type="file"
+                accept=".json,application/json"
+                multiple
+                className="hidden"
+                onChange={(e) => addFiles((e.target as HTMLInputElement).files)}
+              />
+            </label>
+          </Button>
+        </div>
+
+        {criteria.length > 0 && (
+          <Select value={criterion} onValueChange={setCriterion}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="overall">Overall choice</SelectItem>
+              {criteria.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  Criterion: {c.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {result ? (
+          <Tabs defaultValue="session">
+            <TabsList>
+              <TabsTrigger value="session">Session</TabsTrigger>
+              <TabsTrigger value="aggregate" disabled={results.length < 2}>
+                Aggregate ({results.length})
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="session" className="space-y-6">
+              {results.length > 1 && (
+                <Select value={String(selected)} onValueChange={(v) => setSelected(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {results.map((r, i) => (
+                      <SelectItem key={`${r.source}-${r.result.timestamp}`} value={String(i)}>
+                        {raterOf(r)} — {new Date(r.result.timestamp).toLocaleString()} — {r.result.roundsCompleted} votes
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <ResultsDashboard result={result} />
+            </TabsContent>
+            <TabsContent value="aggregate" className="space-y-6">
+              {failing.size > 0 && (
+                <div className="flex items-center gap-3">
+                  <Switch id="exclude-failing" checked={excludeFailing} onCheckedChange={setExcludeFailing} />
+                  <Label htmlFor="exclude-failing">
+                    Exclude {failing.size} rater{failing.size === 1 ? "" : "s"} who failed attention checks (
+                    {Array.from(failing).join(", ")})
+                  </Label>
+                </div>
+              )}
+              {aggregateItems.length > 0 ? (
+                <AggregateReport items={aggregateItems} />
+              ) : (
+                <p className="text-center text-muted-foreground">Every rater failed their attention checks.</p>
+              )}
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <p className="text-center text-muted-foreground">No session finished yet in this browser.</p>
+        )}
+      </section>
+    </main>
+  );
+};
+
+export default Results;
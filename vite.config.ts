@@ -4,11 +4,37 @@ import path from "path";
 import { componentTagger } from "lovable-tagger";
 import fs from "fs";
 import fsp from "fs/promises";
+import { createHash } from "crypto";
+import {
+  MANIFEST_VERSION,
+  entryFromFileName,
+  imageDimensions,
+  type DatasetManifest,
+  type ImageSidecar,
+  type ManifestImage,
+} from "./src/lib/arena/manifest";
+import { DATASET_INDEX_FILE, DEFAULT_DATASET_ID, type DatasetIndex } from "./src/lib/arena/datasets";
+import {
+  INSTRUCTION_FILES,
+  mergePromptTables,
+  parseInstructions,
+  type PromptTable,
+} from "./src/lib/arena/instructions";
+import { formatReport, issueCount, validateDataset, type ValidationReport } from "./src/lib/arena/validation";
 
-function imagesManifestPlugin(): Plugin {
+// With failOnInvalid the plugin also runs on `vite build` and stops it when a
+// dataset has orphans, duplicates, instruction mismatches or unreadable files
+function imagesManifestPlugin({ failOnInvalid = false }: { failOnInvalid?: boolean } = {}): Plugin {
   const supported = new Set([".png", ".jpg", ".jpeg", ".webp", ".gif", ".bmp"]);
+  let isBuild = false;
+  // Each image opens the file and its sidecar; keeps thousands of images
+  // under the default open-file limit
+  const DESCRIBE_CONCURRENCY = 16;
+  // Data files that live next to the images and are not reported as skipped
+  const companions = new Set([".json", ".csv", ".tsv", ".txt", ".md"]);
   const imagesDir = path.resolve(__dirname, "public", "images");
-  const manifestPath = path.resolve(imagesDir, "manifest.json");
+  // Each public/datasets/<name>/ folder gets its own manifest.json
+  const datasetsDir = path.resolve(__dirname, "public", "datasets");
 
   async function ensureDir(dir: string) {
     try {
@@ -16,7 +42,7 @@ function imagesManifestPlugin(): Plugin {
     } catch {}
   }
 
-  async function scanDir(currentDir: string, baseDir: string): Promise<string[]> {
+  async function scanDir(currentDir: string, baseDir: string, skipped: string[] = []): Promise<string[]> {
     let results: string[] = [];
     let entries: fs.Dirent[] = [];
     try {
@@ -29,29 +55,139 @@ function imagesManifestPlugin(): Plugin {
       const full = path.join(currentDir, entry.name);
       const rel = path.relative(baseDir, full);
       if (entry.isDirectory()) {
-        const sub = await scanDir(full, baseDir);
+        const sub = await scanDir(full, baseDir, skipped);
         results = results.concat(sub);
       } else {
         const ext = path.extname(entry.name).toLowerCase();
         if (supported.has(ext)) results.push(rel.replace(/\\/g, "/"));
+        else if (!companions.has(ext)) skipped.push(rel.replace(/\\/g, "/"));
       }
     }
     return results;
   }
 
-  async function generateManifest() {
+  // Hash and dimensions only change with the file, so they are reused while
+  // size and mtime match
+  const described = new Map<string, { size: number; mtimeMs: number; entry: ManifestImage }>();
+
+  async function describeImage(rootDir: string, rel: string): Promise<ManifestImage> {
+    const full = path.join(rootDir, rel);
+    const stat = await fsp.stat(full);
+    let entry = described.get(full);
+    if (!entry || entry.size !== stat.size || entry.mtimeMs !== stat.mtimeMs) {
+      const bytes = await fsp.readFile(full);
+      entry = {
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        entry: {
+          ...entryFromFileName(rel),
+          ...(imageDimensions(bytes) ?? {}),
+          sha256: createHash("sha256").update(bytes).digest("hex"),
+        },
+      };
+      described.set(full, entry);
+    }
+    let sidecar: ImageSidecar = {};
+    try {
+      sidecar = JSON.parse(await fsp.readFile(full.replace(/\.[^/.]+$/, ".json"), "utf8"));
+    } catch (err) {
+      // No sidecar, or not valid JSON; anything else (e.g. EMFILE) is a real failure
+      const missing = (err as NodeJS.ErrnoException).code === "ENOENT";
+      if (!missing && !(err instanceof SyntaxError)) throw err;
+    }
+    const { file, model, id, width, height, sha256 } = entry.entry;
+    return {
+      file,
+      model: sidecar.model || model,
+      id: sidecar.id || id,
+      ...(sidecar.prompt !== undefined ? { prompt: sidecar.prompt } : {}),
+      ...(sidecar.seed !== undefined ? { seed: sidecar.seed } : {}),
+      ...(sidecar.params !== undefined ? { params: sidecar.params } : {}),
+      ...(width !== undefined ? { width, height } : {}),
+      sha256,
+    };
+  }
+
+  // Rewriting an unchanged file would wake the watcher and regenerate again
+  async function writeIfChanged(file: string, json: string) {
+    const previous = await fsp.readFile(file, "utf8").catch(() => null);
+    if (previous !== json) await fsp.writeFile(file, json, "utf8");
+  }
+
+  async function readInstructionIds(dir: string): Promise<string[]> {
+    const tables: PromptTable[] = [];
+    for (const name of INSTRUCTION_FILES) {
+      const text = await fsp.readFile(path.join(dir, name), "utf8").catch(() => "");
+      tables.push(parseInstructions(text));
+    }
+    return Object.keys(mergePromptTables(tables));
+  }
+
+  // Writes the manifest for one dataset and checks it
+  async function writeManifest(rootDir: string, instructionsDir: string): Promise<ValidationReport> {
+    const skipped: string[] = [];
+    const files = (await scanDir(rootDir, rootDir, skipped)).sort();
+    skipped.sort();
+    const manifest: DatasetManifest = {
+      version: MANIFEST_VERSION,
+      images: await mapLimited(files, DESCRIBE_CONCURRENCY, (rel) => describeImage(rootDir, rel)),
+      ...(skipped.length > 0 ? { skipped } : {}),
+    };
+    const json = JSON.stringify(manifest, null, 2);
+    await writeIfChanged(path.join(rootDir, "manifest.json"), json);
+    return validateDataset(
+      manifest.images.map((i) => ({ model: i.model, id: i.id, name: i.file })),
+      {
+        instructionIds: await readInstructionIds(instructionsDir),
+        unreadable: manifest.images
+          .filter((i) => i.width === undefined)
+          .map((i) => ({ file: i.file, reason: "Unrecognised image header" })),
+        skipped,
+      }
+    );
+  }
+
+  async function generateManifest(): Promise<Record<string, ValidationReport>> {
     await ensureDir(imagesDir);
-    const files = await scanDir(imagesDir, imagesDir);
-    const json = JSON.stringify(files, null, 2);
-    await fsp.writeFile(manifestPath, json, "utf8");
+    const reports: Record<string, ValidationReport> = {
+      [DEFAULT_DATASET_ID]: await writeManifest(imagesDir, path.dirname(imagesDir)),
+    };
+    let datasets: fs.Dirent[] = [];
+    try {
+      datasets = await fsp.readdir(datasetsDir, { withFileTypes: true });
+    } catch {
+      return reports;
+    }
+    const index: DatasetIndex = { datasets: [] };
+    for (const entry of datasets.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.isDirectory() && !entry.name.startsWith(".")) {
+        const dir = path.join(datasetsDir, entry.name);
+        reports[entry.name] = await writeManifest(dir, dir);
+        index.datasets.push({ id: entry.name, imageCount: reports[entry.name].imageCount });
+      }
+    }
+    await writeIfChanged(path.resolve(__dirname, "public", DATASET_INDEX_FILE), JSON.stringify(index, null, 2));
+    return reports;
+  }
+
+  // One message per dataset with issues, or null when all are clean
+  function describeIssues(reports: Record<string, ValidationReport>): string | null {
+    const messages = Object.entries(reports)
+      .filter(([, report]) => issueCount(report) > 0)
+      .map(([id, report]) => `Dataset "${id}" has ${issueCount(report)} issue(s):\n${formatReport(report)}`);
+    return messages.length > 0 ? messages.join("\n\n") : null;
   }
 
   return {
     name: "generate-public-images-manifest",
-    apply: "serve",
+    apply: (_config, { command }) => command === "serve" || failOnInvalid,
+    configResolved(config) {
+      isBuild = config.command === "build";
+    },
     async configureServer(server) {
-      await generateManifest();
-      server.watcher.add(imagesDir);
+      const issues = describeIssues(await generateManifest());
+      if (issues) server.config.logger.warn(issues);
+      server.watcher.add([imagesDir, datasetsDir]);
       const debounced = debounce(async () => {
         try { await generateManifest(); } catch {}
       }, 150);
@@ -60,10 +196,25 @@ function imagesManifestPlugin(): Plugin {
       server.watcher.on("change", debounced);
     },
     async buildStart() {
-      await generateManifest();
+      const issues = describeIssues(await generateManifest());
+      if (issues && failOnInvalid && isBuild) throw new Error(issues);
     },
   } as Plugin;
 
+  // Like Promise.all over items.map(fn), with at most `limit` calls in flight
+  async function mapLimited<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const out: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length) {
+        const i = next++;
+        out[i] = await fn(items[i]);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return out;
+  }
+
   function debounce<T extends (...args: any[]) => any>(fn: T, wait: number) {
     let timer: any;
     return (...args: Parameters<T>) => {
@@ -73,16 +224,22 @@ function imagesManifestPlugin(): Plugin {
   }
 }
 
+const pkg = JSON.parse(fs.readFileSync(path.resolve(__dirname, "package.json"), "utf8"));
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   base: mode === 'gh' ? `/${process.env.GITHUB_REPOSITORY?.split('/')?.[1] ?? ''}/` : '/',
+  define: {
+    __APP_VERSION__: JSON.stringify(pkg.version),
+  },
   server: {
     host: "::",
     port: 8080,
   },
   plugins: [
     react(),
-    imagesManifestPlugin(),
+    // ARENA_STRICT=1 vite build fails on datasets that do not pass the checks
+    imagesManifestPlugin({ failOnInvalid: process.env.ARENA_STRICT === "1" }),
     mode === 'development' && componentTagger(),
   ].filter(Boolean),
   resolve: {